@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { Check, CheckCheck, Send, ShieldCheck, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import type { ChatEntry, ChatMode } from "~/hooks/useChat";
+import { displayName } from "~/lib/profile";
+import { MAX_CHAT_LENGTH, type Profile } from "~/types/signaling";
+
+const URL_PATTERN = /(https?:\/\/[^\s<>"]+)/g;
+
+// Turns http(s) URLs into links. Trailing punctuation stays text, so "see https://x.y." works.
+function linkify(text: string): ReactNode[] {
+  return text.split(URL_PATTERN).map((part, i) => {
+    if (i % 2 === 0) return part;
+    const [, url, trailing] = part.match(/^(.*?)([.,;:!?)\]]*)$/) ?? [part, part, ""];
+    return (
+      <span key={i}>
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="underline underline-offset-2 break-all hover:text-primary"
+        >
+          {url}
+        </a>
+        {trailing}
+      </span>
+    );
+  });
+}
+
+function formatTime(sentAt: number) {
+  return new Date(sentAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+const P2P_HINT = "Sent directly between browsers over encrypted peer connections; the server never sees it.";
+
+// Per-recipient receipts under our own P2P messages
+function DeliveryStatus({
+  message,
+  profiles,
+}: {
+  message: ChatEntry;
+  profiles: Map<string, Profile | undefined>;
+}) {
+  const recipients = message.recipients ?? [];
+  const delivered = new Set(message.deliveredTo);
+  if (recipients.length === 0) {
+    return <span className="text-[11px] text-muted-foreground">No one else was here</span>;
+  }
+
+  const all = recipients.every((id) => delivered.has(id));
+  const Icon = all ? CheckCheck : Check;
+  const breakdown = recipients
+    .map((id) => `${displayName(profiles.get(id), id)}: ${delivered.has(id) ? "delivered" : "waiting"}`)
+    .join("\n");
+
+  return (
+    <span
+      className={`mt-0.5 flex items-center gap-1 text-[11px] ${all ? "text-emerald-500" : "text-muted-foreground"}`}
+      title={breakdown}
+    >
+      <Icon className="h-3 w-3" />
+      {all ? "Delivered" : `Delivered to ${delivered.size} of ${recipients.length}`}
+    </span>
+  );
+}
+
+/**
+ * Collapsible room chat, docked above the control bar.
+ */
+export function ChatPanel({
+  messages,
+  clientId,
+  peers,
+  mode,
+  onModeChange,
+  onSend,
+  onClose,
+}: {
+  messages: ChatEntry[];
+  clientId: string;
+  // For naming recipients in delivery receipts
+  peers: { id: string; profile?: Profile }[];
+  mode: ChatMode;
+  onModeChange: (mode: ChatMode) => void;
+  // Returns false if the message wasn't sent (empty or too long)
+  onSend: (text: string) => boolean;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+  const profiles = new Map(peers.map((p) => [p.id, p.profile]));
+
+  // Stick to the newest message
+  useEffect(() => {
+    const el = listRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages.length]);
+
+  return (
+    <div className="fixed right-4 bottom-28 z-40 flex h-[28rem] max-h-[60vh] w-[min(22rem,calc(100vw-2rem))] flex-col overflow-hidden rounded-2xl border border-border bg-background/95 shadow-2xl backdrop-blur-md animate-in slide-in-from-bottom-4 fade-in duration-200">
+      <div className="flex items-center border-b border-border px-4 py-2">
+        <h2 className="text-sm font-semibold">Chat</h2>
+        <div className="ml-auto mr-2 flex rounded-full border border-border p-0.5 text-xs" role="radiogroup" aria-label="Send via">
+          <button
+            type="button"
+            role="radio"
+            aria-checked={mode === "server"}
+            onClick={() => onModeChange("server")}
+            className={`rounded-full px-2 py-0.5 ${mode === "server" ? "bg-muted font-medium" : "text-muted-foreground"}`}
+            title="Relayed by the server, which keeps recent history for people who join later"
+          >
+            Room
+          </button>
+          <button
+            type="button"
+            role="radio"
+            aria-checked={mode === "p2p"}
+            onClick={() => onModeChange("p2p")}
+            className={`flex items-center gap-1 rounded-full px-2 py-0.5 ${mode === "p2p" ? "bg-emerald-500/15 font-medium text-emerald-600 dark:text-emerald-400" : "text-muted-foreground"}`}
+            title={P2P_HINT}
+          >
+            <ShieldCheck className="h-3 w-3" />
+            P2P
+          </button>
+        </div>
+        <Button variant="ghost" size="icon-sm" className="h-7 w-7 rounded-full" onClick={onClose} aria-label="Close chat">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div ref={listRef} className="flex-1 space-y-3 overflow-y-auto px-4 py-3">
+        {messages.length === 0 ? (
+          <p className="pt-8 text-center text-sm text-muted-foreground">
+            No messages yet. Chat isn't saved; it disappears when the room closes. P2P messages
+            only reach people who are here when you send them.
+          </p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.senderClientId === clientId;
+            const isP2P = message.transport === "p2p";
+            return (
+              <div key={message.id} className={`flex flex-col ${isOwn ? "items-end" : "items-start"}`}>
+                <span className="mb-0.5 flex items-center gap-1 text-[11px] text-muted-foreground">
+                  {isOwn ? "You" : displayName(message.senderProfile, message.senderClientId)} · {formatTime(message.sentAt)}
+                  {isP2P && (
+                    <span
+                      className="flex items-center gap-0.5 rounded-full bg-emerald-500/15 px-1.5 font-medium text-emerald-600 dark:text-emerald-400"
+                      title={P2P_HINT}
+                    >
+                      <ShieldCheck className="h-3 w-3" />
+                      P2P
+                    </span>
+                  )}
+                </span>
+                <p
+                  className={`max-w-[85%] whitespace-pre-wrap break-words rounded-2xl px-3 py-1.5 text-sm select-text ${isOwn ? "bg-primary text-primary-foreground" : "bg-muted text-foreground"} ${isP2P ? "ring-1 ring-emerald-500/50" : ""}`}
+                >
+                  {linkify(message.text)}
+                </p>
+                {isOwn && isP2P && <DeliveryStatus message={message} profiles={profiles} />}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <form
+        className="flex items-center gap-2 border-t border-border p-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (onSend(draft)) setDraft("");
+        }}
+      >
+        <input
+          type="text"
+          autoFocus
+          value={draft}
+          maxLength={MAX_CHAT_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={mode === "p2p" ? "Message peers directly (P2P)" : "Message the room"}
+          className="h-9 flex-1 rounded-full border border-border bg-background px-3 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+        />
+        <Button type="submit" size="icon" className="h-9 w-9 rounded-full" disabled={!draft.trim()} aria-label="Send">
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
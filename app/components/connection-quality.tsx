@@ -0,0 +1,83 @@
+import { Popover, PopoverContent, PopoverTrigger } from "~/components/ui/popover";
+import type { CandidateType, PeerStats } from "~/lib/peer-stats";
+
+const QUALITY_LABELS = ["Measuring…", "Poor", "Fair", "Good", "Excellent"] as const;
+
+const QUALITY_COLORS = [
+  "bg-muted-foreground/40",
+  "bg-red-500",
+  "bg-amber-500",
+  "bg-green-500",
+  "bg-green-500",
+] as const;
+
+const ROUTE_LABELS: Record<CandidateType, string> = {
+  host: "direct (local network)",
+  srflx: "direct (through NAT)",
+  prflx: "direct (through NAT)",
+  relay: "relayed (TURN)",
+};
+
+function route(stats: PeerStats) {
+  const { localCandidateType: local, remoteCandidateType: remote } = stats;
+  if (!local && !remote) return "—";
+  // Either side relaying means the audio goes through a TURN server.
+  if (local === "relay" || remote === "relay") return ROUTE_LABELS.relay;
+  return ROUTE_LABELS[local ?? remote!];
+}
+
+function formatMs(value: number | null) {
+  return value === null ? "—" : `${Math.round(value)} ms`;
+}
+
+function formatKbps(value: number | null) {
+  return value === null ? "—" : `${Math.round(value)} kbps`;
+}
+
+/**
+ * Signal bars for one peer connection; click for the numbers behind them.
+ */
+export function ConnectionQuality({ stats }: { stats: PeerStats }) {
+  const rows: [string, string][] = [
+    ["Round trip", formatMs(stats.rttMs)],
+    ["Jitter", formatMs(stats.jitterMs)],
+    ["Packet loss", stats.packetLossPercent === null ? "—" : `${stats.packetLossPercent.toFixed(1)}%`],
+    ["Jitter buffer", formatMs(stats.jitterBufferMs)],
+    ["Est. delay", formatMs(stats.estimatedDelayMs)],
+    ["Route", route(stats)],
+    ["Codec", stats.codec ?? "—"],
+    ["Receiving", formatKbps(stats.inboundKbps)],
+    ["Sending", formatKbps(stats.outboundKbps)],
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex h-7 items-end gap-0.5 rounded-full bg-muted/50 px-2 pb-1.5 pt-1.5 backdrop-blur-sm hover:bg-muted"
+          aria-label={`Connection quality: ${QUALITY_LABELS[stats.quality]}`}
+        >
+          {[1, 2, 3, 4].map((bar) => (
+            <span
+              key={bar}
+              className={`w-1 rounded-sm ${bar <= stats.quality ? QUALITY_COLORS[stats.quality] : "bg-muted-foreground/25"}`}
+              style={{ height: `${bar * 3 + 1}px` }}
+            />
+          ))}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align="end">
+        <p className="mb-2 text-sm font-semibold">Connection: {QUALITY_LABELS[stats.quality]}</p>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="text-right font-mono">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,131 @@
+import { Download, File as FileIcon, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import type { FileTransfer } from "~/hooks/useFileTransfer";
+import { displayName } from "~/lib/profile";
+import type { Profile } from "~/types/signaling";
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function statusLabel(transfer: FileTransfer) {
+  switch (transfer.status) {
+    case "offered":
+      return transfer.direction === "send" ? "Waiting for them to accept…" : "Wants to send you this file";
+    case "transferring":
+      return `${formatBytes(transfer.bytes)} of ${formatBytes(transfer.size)}`;
+    case "verifying":
+      return "Checking integrity…";
+    case "done":
+      return transfer.direction === "send" ? "Delivered and verified" : "Verified (SHA-256)";
+    case "declined":
+      return "Declined";
+    case "cancelled":
+      return transfer.error ?? "Cancelled";
+    case "failed":
+      return transfer.error ?? "Failed";
+  }
+}
+
+/**
+ * Incoming offers and running/finished transfers, docked bottom-left.
+ */
+export function FileTransferList({
+  transfers,
+  peers,
+  onAccept,
+  onDecline,
+  onCancel,
+  onDismiss,
+}: {
+  transfers: FileTransfer[];
+  // For naming the other side
+  peers: { id: string; profile?: Profile }[];
+  onAccept: (id: string) => void;
+  onDecline: (id: string) => void;
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+}) {
+  if (transfers.length === 0) return null;
+  const profiles = new Map(peers.map((p) => [p.id, p.profile]));
+
+  return (
+    <div className="fixed left-4 bottom-28 z-40 flex max-h-[60vh] w-[min(20rem,calc(100vw-2rem))] flex-col gap-2 overflow-y-auto">
+      {transfers.map((transfer) => {
+        const peerName = displayName(profiles.get(transfer.peerId), transfer.peerId);
+        const running = transfer.status === "transferring" || transfer.status === "verifying";
+        const finished = !running && transfer.status !== "offered";
+        const percent = transfer.size > 0 ? Math.round((transfer.bytes / transfer.size) * 100) : 100;
+
+        return (
+          <div
+            key={transfer.id}
+            className="rounded-xl border border-border bg-background/95 p-3 shadow-xl backdrop-blur-md animate-in slide-in-from-bottom-4 fade-in duration-200"
+          >
+            <div className="flex items-start gap-2">
+              <FileIcon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium" title={transfer.name}>
+                  {transfer.name}
+                </p>
+                <p className="text-[11px] text-muted-foreground">
+                  {transfer.direction === "send" ? "To" : "From"} {peerName} · {formatBytes(transfer.size)}
+                </p>
+              </div>
+              {!(transfer.status === "offered" && transfer.direction === "receive") && (
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  className="h-6 w-6 rounded-full"
+                  onClick={() => (finished ? onDismiss(transfer.id) : onCancel(transfer.id))}
+                  aria-label={finished ? "Dismiss" : "Cancel transfer"}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+
+            {running && (
+              <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-muted">
+                <div className="h-full bg-primary transition-[width] duration-200" style={{ width: `${percent}%` }} />
+              </div>
+            )}
+
+            <p
+              className={`mt-1.5 text-[11px] ${transfer.status === "failed" ? "text-destructive" : transfer.status === "done" ? "text-emerald-500" : "text-muted-foreground"}`}
+            >
+              {statusLabel(transfer)}
+            </p>
+
+            {transfer.status === "offered" && transfer.direction === "receive" && (
+              <div className="mt-2 flex gap-2">
+                <Button size="sm" className="h-7 flex-1 rounded-full text-xs" onClick={() => onAccept(transfer.id)}>
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 flex-1 rounded-full text-xs"
+                  onClick={() => onDecline(transfer.id)}
+                >
+                  Decline
+                </Button>
+              </div>
+            )}
+
+            {transfer.url && (
+              <Button asChild size="sm" variant="outline" className="mt-2 h-7 w-full rounded-full text-xs">
+                <a href={transfer.url} download={transfer.name}>
+                  <Download className="mr-1 h-3.5 w-3.5" />
+                  Save file
+                </a>
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Crown, UserX, VolumeX } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "~/components/ui/tooltip";
+import { MAX_KICK_REASON_LENGTH } from "~/types/signaling";
+
+/**
+ * Moderation buttons shown on a remote peer's card when the local user is host.
+ */
+export function PeerHostControls({
+  peerLabel,
+  muted,
+  onForceMute,
+  onKick,
+  onBan,
+  onMakeHost,
+}: {
+  peerLabel: string;
+  muted?: boolean;
+  onForceMute: () => void;
+  onKick: (reason: string) => void;
+  onBan: (reason: string) => void;
+  onMakeHost: () => void;
+}) {
+  const [removeOpen, setRemoveOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const handleRemove = (action: (reason: string) => void) => {
+    action(reason.trim());
+    setRemoveOpen(false);
+    setReason("");
+  };
+
+  return (
+    <div className="flex gap-1">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="h-7 w-7 rounded-full bg-background/60 backdrop-blur-sm text-muted-foreground hover:text-foreground"
+            onClick={onForceMute}
+            disabled={muted}
+          >
+            <VolumeX className="h-3.5 w-3.5" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Mute {peerLabel}</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="h-7 w-7 rounded-full bg-background/60 backdrop-blur-sm text-muted-foreground hover:text-foreground"
+            onClick={onMakeHost}
+          >
+            <Crown className="h-3.5 w-3.5" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Make host</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Dialog open={removeOpen} onOpenChange={setRemoveOpen}>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="h-7 w-7 rounded-full bg-background/60 backdrop-blur-sm text-muted-foreground hover:text-destructive"
+              >
+                <UserX className="h-3.5 w-3.5" />
+              </Button>
+            </DialogTrigger>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Remove from room</p>
+          </TooltipContent>
+        </Tooltip>
+        <DialogContent className="bg-background border-border text-foreground">
+          <DialogHeader>
+            <DialogTitle>Remove {peerLabel}?</DialogTitle>
+            <DialogDescription>
+              Kicking disconnects them. Banning also stops them from rejoining until the room closes.
+            </DialogDescription>
+          </DialogHeader>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={MAX_KICK_REASON_LENGTH}
+            placeholder="Reason (optional, shown to them)"
+            className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleRemove(onKick)}>
+              Kick
+            </Button>
+            <Button variant="destructive" onClick={() => handleRemove(onBan)}>
+              Ban
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState, type ReactNode } from "react";
+import { Check } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { AVATAR_COLOR_CLASSES, AVATAR_EMOJIS, avatarLabel } from "~/lib/profile";
+import {
+  AVATAR_COLORS,
+  MAX_DISPLAY_NAME_LENGTH,
+  ProfileSchema,
+  type AvatarColor,
+  type Profile,
+} from "~/types/signaling";
+
+/**
+ * Name, emoji and colour picker. Used before joining and from the header badge.
+ */
+export function ProfileForm({
+  initial,
+  clientId,
+  submitLabel,
+  onSubmit,
+  children,
+}: {
+  initial?: Profile | null;
+  clientId: string;
+  submitLabel: string;
+  onSubmit: (profile: Profile) => void;
+  // Extra buttons next to submit (e.g. "Skip")
+  children?: ReactNode;
+}) {
+  const [name, setName] = useState(initial?.name ?? "");
+  const [emoji, setEmoji] = useState<string | undefined>(initial?.emoji);
+  const [color, setColor] = useState<AvatarColor>(initial?.color ?? "slate");
+
+  const parsed = ProfileSchema.safeParse({ name, emoji, color });
+  const preview = parsed.success ? parsed.data : undefined;
+
+  return (
+    <form
+      className="flex w-full flex-col items-center gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (parsed.success) onSubmit(parsed.data);
+      }}
+    >
+      <div
+        className={`flex h-20 w-20 items-center justify-center rounded-full border-2 text-3xl font-bold ${AVATAR_COLOR_CLASSES[color]}`}
+      >
+        {preview ? avatarLabel(preview, clientId) : (emoji ?? "?")}
+      </div>
+
+      <input
+        type="text"
+        autoFocus
+        maxLength={MAX_DISPLAY_NAME_LENGTH}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Your name"
+        className="h-10 w-full rounded-full border border-border bg-background px-4 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+      />
+
+      <div className="flex flex-wrap justify-center gap-1" role="radiogroup" aria-label="Avatar emoji">
+        {AVATAR_EMOJIS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={emoji === option}
+            onClick={() => setEmoji(emoji === option ? undefined : option)}
+            className={`h-9 w-9 rounded-full text-lg transition-colors hover:bg-muted ${emoji === option ? "bg-muted ring-2 ring-primary" : ""}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label="Avatar colour">
+        {AVATAR_COLORS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={color === option}
+            aria-label={option}
+            onClick={() => setColor(option)}
+            className={`flex h-7 w-7 items-center justify-center rounded-full border-2 ${AVATAR_COLOR_CLASSES[option]}`}
+          >
+            {color === option && <Check className="h-3.5 w-3.5" />}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        {children}
+        <Button type="submit" className="rounded-full" disabled={!parsed.success}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
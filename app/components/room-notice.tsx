@@ -0,0 +1,38 @@
+import type { ReactNode } from "react";
+import type { LucideIcon } from "lucide-react";
+import { ModeToggle } from "~/components/mode-toggle";
+
+/**
+ * Full-screen message shown in place of the room grid, e.g. when the room is full.
+ */
+export function RoomNotice({
+  icon: Icon,
+  title,
+  description,
+  children,
+}: {
+  icon: LucideIcon;
+  title: string;
+  description: ReactNode;
+  // Action buttons
+  children?: ReactNode;
+}) {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4 bg-background text-foreground relative">
+      <div className="absolute top-4 right-4 z-10">
+        <ModeToggle />
+      </div>
+
+      <div className="relative z-10 flex flex-col items-center text-center space-y-6 max-w-md animate-in fade-in zoom-in-95 duration-500">
+        <div className="flex h-16 w-16 items-center justify-center rounded-2xl bg-muted ring-1 ring-border">
+          <Icon className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">{title}</h1>
+          <p className="text-muted-foreground">{description}</p>
+        </div>
+        {children && <div className="flex flex-wrap items-center justify-center gap-3">{children}</div>}
+      </div>
+    </div>
+  );
+}
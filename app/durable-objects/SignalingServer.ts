@@ -1,46 +1,153 @@
 import { DurableObject } from "cloudflare:workers";
-import { z } from "zod";
+import { CLIENT_ID_HEADER } from "~/lib/join-token.server";
+import { hashPassphrase, verifyPassphrase, type PassphraseHash } from "~/lib/passphrase.server";
+import {
+  RoomOptionsSchema,
+  deploymentMaxParticipants,
+  effectiveMaxParticipants,
+  reconnectGraceMs,
+  roomLifetimeLimits,
+  type RoomConfig,
+  type RoomInfo,
+  type RoomOptions,
+} from "~/lib/room-config";
+import {
+  DEFAULT_AUDIO_PROFILE,
+  ERROR_CLOSE_CODES,
+  HEARTBEAT_INTERVAL_MS,
+  HEARTBEAT_MAX_MISSED,
+  HEARTBEAT_PING,
+  HEARTBEAT_PONG,
+  PROTOCOL_VERSION,
+  decodeClientMessage,
+  type AudioProfile,
+  type ChatMessage,
+  type ClientMessage,
+  type Participant,
+  type Profile,
+  type RelayedSignal,
+  type ServerMessage,
+  type SignalingError,
+  type SignalingErrorCode,
+} from "~/types/signaling";
 
-// Validation schemas
-const JoinSchema = z.object({
-  type: z.literal("join"),
-  clientId: z.string(),
-});
+// Per-socket state. Stored with `serializeAttachment` so it survives hibernation:
+// when the object is evicted and later woken by a message, every field here is
+// still available on the socket even though instance fields were reset.
+type SessionAttachment = {
+  connectionId: string;
+  // Verified from the join token before the socket was accepted
+  clientId: string;
+  // Stands in for the last ping until the first one arrives
+  connectedAt: number;
+  // False until the socket sends `join` (and, in admission mode, until the host admits it)
+  joined: boolean;
+  joinedAt?: number;
+  // Parked in the waiting room
+  pending?: boolean;
+  muted: boolean;
+  // Handed to the client on join; presenting it again resumes this session
+  resumeToken?: string;
+  // Display name and avatar from `join` / `set-profile`
+  profile?: Profile;
+  // From CF-Connecting-IP; only used to throttle passphrase guesses
+  ip?: string;
+};
 
-const MuteStateSchema = z.object({
-  type: z.literal("mute-state"),
-  muted: z.boolean(),
-  senderClientId: z.string(),
-});
+// A joined session whose socket dropped without `leave`. Held in storage for the reconnect grace
+// window so a resume can pick it up without anyone seeing the user leave.
+type HeldSession = {
+  resumeToken: string;
+  joinedAt: number;
+  muted: boolean;
+  profile?: Profile;
+  expiresAt: number;
+};
 
-const SignalSchema = z.object({
-  type: z.enum(["offer", "answer", "ice-candidate"]),
-  targetClientId: z.string(),
-  payload: z.any(), // WebRTC payloads can be complex, keeping it flexible
-  senderClientId: z.string(),
-});
+// Wrong passphrases from one client id or IP, for throttling guesses.
+type PassphraseAttempts = {
+  failures: number;
+  // No more guesses are checked before this (epoch ms)
+  retryAt: number;
+  lastFailureAt: number;
+};
 
-const MessageSchema = z.union([JoinSchema, SignalSchema, MuteStateSchema]);
+// Who is guessing: the verified client id and, where the edge tells us, the IP.
+type PassphraseGuesser = { clientId?: string | null; ip?: string | null };
 
-type Message = z.infer<typeof MessageSchema>;
+export type PassphraseCheck = { ok: true } | { ok: false; retryAfterMs?: number };
 
 export class SignalingServer extends DurableObject {
-  // Map<ClientId, WebSocket>
-  private sessions: Map<string, { ws: WebSocket; connectionId: string }> = new Map();
-  // Track current mute state so new users can learn existing statuses
-  private muteStates: Map<string, boolean> = new Map();
-  private rateLimits: Map<string, { count: number; windowStart: number }> = new Map();
+  // In-memory only. Losing this on eviction just resets the window, which is harmless.
+  private rateLimits: Map<string, { count: number; windowStart: number; notified: boolean }> = new Map();
   private static readonly RATE_LIMIT_WINDOW_MS = 10_000;
   private static readonly RATE_LIMIT_MAX = 80;
+  // Past this many messages in one window the client is ignoring `rate-limited`; disconnect it.
+  private static readonly RATE_LIMIT_HARD_MAX = 160;
+  // Chat gets a tighter budget of its own on top of the general one.
+  private chatRateLimits: Map<string, { count: number; windowStart: number }> = new Map();
+  private static readonly CHAT_RATE_LIMIT_WINDOW_MS = 10_000;
+  private static readonly CHAT_RATE_LIMIT_MAX = 10;
+
+  // Last few chat messages for late joiners, kept in storage ("chatHistory") so they survive
+  // hibernation. Cleared when the room empties or expires.
+  private static readonly CHAT_HISTORY_SIZE = 50;
+
+  // The stale-socket sweep is due when the first socket would go silent for too long, but never
+  // sooner than this after the last one. Healthy sockets keep pushing that moment forward, so
+  // without a floor the alarm would chase them every ping; this leaves the room time to hibernate.
+  private static readonly STALE_SOCKET_MIN_SWEEP_MS = 15_000;
+
+  // Passphrase guessing: a few free tries, then an exponential wait between guesses. Kept in
+  // storage (a guesser could otherwise wait out an eviction) and forgotten after an hour.
+  private static readonly PASSPHRASE_FREE_ATTEMPTS = 3;
+  private static readonly PASSPHRASE_MAX_BACKOFF_MS = 5 * 60_000;
+  private static readonly PASSPHRASE_ATTEMPTS_TTL_MS = 60 * 60_000;
+  private static readonly PASSPHRASE_ATTEMPTS_MAX_ENTRIES = 1000;
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
-    // Restore any existing sessions if needed, but for ephemeral signaling we might not need to.
-    // However, DOs are persistent, so in-memory state stays as long as the DO is alive.
-    // We'll rely on in-memory state.
-    
-    // Clean up disconnected sessions periodically if needed, 
-    // but WebSocket 'close' event is usually enough.
+    // Sockets are accepted through the Hibernation API, so there is nothing to restore here:
+    // the runtime hands them back via `ctx.getWebSockets()` with their attachments intact.
+    // Heartbeats are answered by the runtime without waking the object; the alarm checks their timestamps.
+    ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair(HEARTBEAT_PING, HEARTBEAT_PONG));
+  }
+
+  /**
+   * RPC from the `_index` action when a room is created with options.
+   * Only the first call takes effect, and only while the room is still empty.
+   */
+  async configure(options: RoomOptions): Promise<void> {
+    const { passphrase, ...parsed } = RoomOptionsSchema.parse(options);
+    if (this.getRoomConfig() || this.getSessions().size > 0) return;
+
+    const config: RoomConfig = {
+      ...parsed,
+      passphrase: passphrase ? await hashPassphrase(passphrase) : undefined,
+      createdAt: Date.now(),
+    };
+    this.ctx.storage.kv.put("config", config);
+    // A room nobody ever joins still idles out.
+    this.markRoomStarted();
+    this.ctx.storage.kv.put("emptySince", config.createdAt);
+    await this.scheduleAlarm();
+  }
+
+  // RPC from the room loader: what the client needs to know before connecting.
+  async getRoomInfo(): Promise<RoomInfo> {
+    return {
+      passphraseRequired: Boolean(this.getRoomConfig()?.passphrase),
+      expired: this.isExpired(),
+    };
+  }
+
+  // RPC from the room action so the prompt can reject a wrong passphrase before the
+  // mic and socket start. `join` checks again; this is only a convenience. Both count
+  // towards the same guess throttle.
+  async checkPassphrase(passphrase: string, guesser: PassphraseGuesser): Promise<PassphraseCheck> {
+    const stored = this.getRoomConfig()?.passphrase;
+    if (!stored) return { ok: true };
+    return this.attemptPassphrase(passphrase, stored, guesser);
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -71,10 +178,30 @@ export class SignalingServer extends DurableObject {
       }
     }
 
+    // Only reachable through the websocket route, which verifies the join token
+    // and sets this header; treat its absence as an unauthenticated request.
+    const clientId = request.headers.get(CLIENT_ID_HEADER);
+    if (!clientId) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
     const webSocketPair = new WebSocketPair();
     const [client, server] = Object.values(webSocketPair);
 
-    this.handleSession(server);
+    // Hibernatable accept: the object can be evicted while sockets stay open.
+    // The socket isn't part of the room until it sends 'join'.
+    this.ctx.acceptWebSocket(server);
+    this.setAttachment(server, {
+      connectionId: crypto.randomUUID(),
+      clientId,
+      connectedAt: Date.now(),
+      joined: false,
+      muted: false,
+      // Set by Cloudflare's edge, so the client can't choose it
+      ip: request.headers.get("CF-Connecting-IP") ?? undefined,
+    });
+    // Starts the heartbeat sweep if this is the first socket.
+    await this.scheduleAlarm();
 
     return new Response(null, {
       status: 101,
@@ -82,162 +209,935 @@ export class SignalingServer extends DurableObject {
     });
   }
 
-  private handleSession(ws: WebSocket) {
-    ws.accept();
-    
-    // We don't know the clientId yet. We'll wait for the 'join' message.
-    let clientId: string | null = null;
-    const connectionId = crypto.randomUUID();
+  async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer) {
+    try {
+      const decoded = decodeClientMessage(data);
+      if (!decoded.ok) {
+        console.error("Invalid message:", decoded.error);
+        this.sendError(ws, "invalid-message", { message: decoded.error.slice(0, 256) });
+        return;
+      }
+
+      const message = decoded.message;
+      const session = this.getAttachment(ws);
+      if (!session) return;
 
-    ws.addEventListener("message", async (event) => {
-      try {
-        const rawData = typeof event.data === "string" ? event.data : "";
-        if (!rawData) return;
+      // Pings are answered by the runtime; this only catches ones that aren't byte-for-byte HEARTBEAT_PING.
+      if (message.type === "ping") {
+        this.sendMessage(ws, { type: "pong" });
+        return;
+      }
 
-        const parsed = JSON.parse(rawData);
-        const validation = MessageSchema.safeParse(parsed);
+      if (message.type === "join") {
+        await this.handleJoin(ws, session, message);
+        return;
+      }
 
-        if (!validation.success) {
-          console.error("Invalid message:", validation.error);
-          return;
+      if (message.type === "leave") {
+        this.handleDisconnect(ws);
+        try {
+          ws.close(1000, "left");
+        } catch {
+          // already closed
         }
+        return;
+      }
 
-        const message = validation.data;
+      // Everything below requires a joined socket that isn't claiming to be someone else.
+      const clientId = session.clientId;
+      if (!session.joined) {
+        this.sendError(ws, "not-joined");
+        return;
+      }
+      if ("senderClientId" in message && message.senderClientId !== undefined && message.senderClientId !== clientId) {
+        console.warn(`Dropping ${message.type} from ${clientId}: sender mismatch`);
+        this.sendError(ws, "client-id-mismatch");
+        return;
+      }
+      if (!this.consumeRateLimit(ws, clientId)) return;
 
-        if (message.type === "join") {
-          clientId = message.clientId;
-          const existing = this.sessions.get(clientId);
-          if (existing) {
-            ws.send(JSON.stringify({ type: "error", reason: "client-id-in-use" }));
-            ws.close(4409, "client-id-in-use");
-            return;
-          }
+      switch (message.type) {
+        case "mute-state":
+          this.setAttachment(ws, { ...session, muted: message.muted });
+          this.broadcastMuteState(clientId, message.muted);
+          break;
+        case "chat":
+          this.handleChat(ws, session, message.text);
+          break;
+        case "set-profile":
+          // Already normalized and length-limited by the schema
+          this.setAttachment(ws, { ...session, profile: message.profile });
+          this.broadcast({ type: "profile-changed", clientId, profile: message.profile }, clientId);
+          break;
+        case "offer":
+        case "answer":
+        case "ice-candidate":
+          this.relayMessage(ws, { ...message, senderClientId: clientId });
+          break;
+        case "kick":
+        case "ban":
+        case "force-mute":
+        case "transfer-host":
+          this.handleHostCommand(ws, clientId, message);
+          break;
+        case "set-admission":
+        case "admit":
+        case "deny":
+          this.handleAdmissionCommand(ws, clientId, message);
+          break;
+        case "lock":
+        case "unlock":
+          this.handleLockCommand(ws, clientId, message.type === "lock");
+          break;
+        case "set-audio-profile":
+          this.handleAudioProfileCommand(ws, clientId, message.profile);
+          break;
+      }
+    } catch (err) {
+      console.error("Error handling message:", err);
+    }
+  }
 
-          this.sessions.set(clientId, { ws, connectionId });
-          this.broadcastUserJoined(clientId);
-          console.log(`User joined: ${clientId}`);
-          this.sendExistingMuteStates(ws);
-        } else if (["offer", "answer", "ice-candidate"].includes(message.type)) {
-           // Relay message
-           if ('targetClientId' in message) {
-             if (clientId && !this.consumeRateLimit(clientId)) {
-               ws.close(4410, "rate-limit");
-               return;
-             }
-             this.relayMessage(message);
-           }
-        } else if (message.type === "mute-state") {
-          if (clientId && !this.consumeRateLimit(clientId)) {
-            ws.close(4410, "rate-limit");
-            return;
-          }
-          this.muteStates.set(message.senderClientId, message.muted);
-          this.broadcastMuteState(message.senderClientId, message.muted);
-        }
+  // One alarm covers whichever comes first: the stale-socket sweep while sockets are open, the
+  // expiry warning, the hard lifetime limit, or the idle timeout of an empty room.
+  async alarm() {
+    this.pruneRateLimits();
+    if (this.isExpired()) return;
+
+    this.evictStaleSockets();
+    this.releaseExpiredHolds();
 
-      } catch (err) {
-        console.error("Error handling message:", err);
+    const deadlines = this.getDeadlines();
+    const now = Date.now();
+    if (deadlines) {
+      const idle = deadlines.idleAt !== undefined && now >= deadlines.idleAt && this.getOccupancy() === 0;
+      if (now >= deadlines.expiresAt || idle) {
+        await this.expireRoom();
+        return;
       }
-    });
 
-    ws.addEventListener("close", () => {
-      if (clientId) {
-        const entry = this.sessions.get(clientId);
-        if (entry && entry.connectionId === connectionId) {
-          this.sessions.delete(clientId);
-          this.muteStates.delete(clientId);
-          console.log(`User disconnected: ${clientId}`);
-          this.broadcastUserLeft(clientId);
+      if (deadlines.warnAt !== undefined && now >= deadlines.warnAt) {
+        this.ctx.storage.kv.put("expiryWarned", true);
+        this.broadcast({ type: "room-expiring", expiresAt: deadlines.expiresAt });
+        console.log(`Room expires at ${new Date(deadlines.expiresAt).toISOString()}`);
+      }
+    }
+    await this.scheduleAlarm();
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    // No `leave` came first, so this may be a network switch: hold the session for a resume.
+    this.handleDisconnect(ws, { hold: true });
+    // Complete the closing handshake; reserved codes (1005/1006) can't be echoed back.
+    try {
+      ws.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+    } catch {
+      // already closed
+    }
+  }
+
+  async webSocketError(ws: WebSocket, error: unknown) {
+    console.error("WebSocket error:", error);
+    this.handleDisconnect(ws, { hold: true });
+  }
+
+  private async handleJoin(
+    ws: WebSocket,
+    joiningSession: SessionAttachment,
+    message: Extract<ClientMessage, { type: "join" }>
+  ) {
+    const clientId = joiningSession.clientId;
+    // Already in the room on this socket. A repeat join would otherwise reach the waiting room
+    // and knock for someone who's already in.
+    if (joiningSession.joined) {
+      console.warn(`Ignoring repeat join from ${clientId}`);
+      return;
+    }
+    const session: SessionAttachment = { ...joiningSession, profile: message.profile ?? joiningSession.profile };
+
+    if (this.isExpired()) {
+      this.rejectAndClose(ws, "room-expired");
+      return;
+    }
+
+    if (message.version !== PROTOCOL_VERSION) {
+      this.rejectAndClose(ws, "unsupported-protocol-version", {
+        message: `Server speaks protocol v${PROTOCOL_VERSION}`,
+      });
+      return;
+    }
+
+    if (message.clientId !== clientId) {
+      this.rejectAndClose(ws, "client-id-mismatch");
+      return;
+    }
+
+    if (this.getBans().includes(clientId)) {
+      this.rejectAndClose(ws, "banned");
+      return;
+    }
+
+    // Checked before anything else about the room is revealed or the session is added
+    const passphraseHash = this.getRoomConfig()?.passphrase;
+    if (passphraseHash) {
+      if (!message.passphrase) {
+        this.rejectAndClose(ws, "passphrase-required");
+        return;
+      }
+      const check = await this.attemptPassphrase(message.passphrase, passphraseHash, session);
+      if (!check.ok) {
+        if (check.retryAfterMs !== undefined) {
+          this.rejectAndClose(ws, "passphrase-throttled", { retryAfterMs: check.retryAfterMs });
+        } else {
+          this.rejectAndClose(ws, "passphrase-invalid");
         }
+        return;
       }
-    });
+    }
 
-    ws.addEventListener("error", () => {
-      if (clientId) {
-        const entry = this.sessions.get(clientId);
-        if (entry && entry.connectionId === connectionId) {
-          this.sessions.delete(clientId);
-          this.muteStates.delete(clientId);
-          console.log(`User disconnected: ${clientId}`);
-          this.broadcastUserLeft(clientId);
+    const sessions = this.getSessions();
+    const existing = sessions.get(clientId);
+    const existingSession = existing && existing !== ws ? this.getAttachment(existing) : null;
+    const held = this.getHeldSessions()[clientId];
+
+    // Resume: the same session reconnecting, either inside the grace window or before we noticed
+    // its old socket died. It was already in the room, so lock, capacity and admission don't apply.
+    if (message.resumeToken) {
+      const previous =
+        held?.resumeToken === message.resumeToken
+          ? held
+          : existingSession?.resumeToken === message.resumeToken
+            ? existingSession
+            : null;
+      if (previous) {
+        if (existing && existingSession) {
+          this.setAttachment(existing, { ...existingSession, joined: false });
+          try {
+            existing.close(1000, "replaced");
+          } catch {
+            // already closed
+          }
         }
+        this.completeJoin(ws, session, {
+          joinedAt: previous.joinedAt ?? Date.now(),
+          muted: previous.muted,
+          profile: previous.profile,
+        });
+        await this.scheduleAlarm();
+        return;
       }
+    }
+
+    // Only the resume token can reclaim a live or held seat; a fresh join waits until the hold
+    // expires, so nobody can take over a session during a network blip.
+    if ((existing && existing !== ws) || held) {
+      this.rejectAndClose(ws, "client-id-in-use");
+      return;
+    }
+
+    if (this.isLocked()) {
+      this.rejectAndClose(ws, "room-locked");
+      return;
+    }
+
+    const capacity = this.getCapacity();
+    if (this.getOccupancy() >= capacity) {
+      this.rejectAndClose(ws, "room-full", {
+        message: `This room is limited to ${capacity} people`,
+      });
+      return;
+    }
+
+    // Waiting room: park the socket and let the host decide.
+    const host = this.getHost();
+    if (this.isAdmissionRequired() && host && host !== clientId) {
+      if (!session.pending) {
+        this.setAttachment(ws, { ...session, pending: true });
+        this.sendMessage(ws, { type: "admission-pending" });
+        this.sendToHost({ type: "knock", clientId, profile: session.profile });
+        console.log(`User knocking: ${clientId}`);
+      }
+      return;
+    }
+
+    this.completeJoin(ws, session);
+    await this.scheduleAlarm();
+  }
+
+  // `resumed` carries over a held (or replaced) session; nobody else is told about the reconnect.
+  private completeJoin(
+    ws: WebSocket,
+    session: SessionAttachment,
+    resumed?: Pick<HeldSession, "joinedAt" | "muted" | "profile">
+  ) {
+    const clientId = session.clientId;
+    const resumeToken = crypto.randomUUID();
+    this.setAttachment(ws, {
+      ...session,
+      joined: true,
+      pending: false,
+      joinedAt: resumed?.joinedAt ?? Date.now(),
+      muted: resumed?.muted ?? session.muted,
+      profile: session.profile ?? resumed?.profile,
+      resumeToken,
     });
+    if (resumed) {
+      this.deleteHeldSession(clientId);
+      console.log(`User resumed: ${clientId}`);
+    } else {
+      this.broadcastUserJoined(clientId, session.profile);
+      console.log(`User joined: ${clientId}`);
+    }
+    this.sendMessage(ws, { type: "session", resumeToken, resumed: Boolean(resumed) });
+
+    // The first person in the room (normally its creator) becomes host.
+    const host = this.getHost();
+    if (!host) this.setHost(clientId);
+
+    this.sendMessage(ws, this.getRoomState());
+    const chatHistory = this.getChatHistory();
+    if (chatHistory.length > 0) {
+      this.sendMessage(ws, { type: "chat-history", messages: chatHistory });
+    }
+
+    // A resuming host missed any knocks while away.
+    if (host === clientId) {
+      for (const [pendingId, pending] of this.getPendingSockets()) {
+        this.sendMessage(ws, { type: "knock", clientId: pendingId, profile: this.getAttachment(pending)?.profile });
+      }
+    }
+
+    this.markRoomStarted();
+    this.ctx.storage.kv.delete("emptySince");
+    const deadlines = this.getDeadlines();
+    if (deadlines && this.ctx.storage.kv.get<boolean>("expiryWarned")) {
+      this.sendMessage(ws, { type: "room-expiring", expiresAt: deadlines.expiresAt });
+    }
   }
 
-  private broadcastUserJoined(newClientId: string) {
-    const message = JSON.stringify({ type: "user-joined", clientId: newClientId });
-    for (const [id, entry] of this.sessions) {
-      if (id === newClientId) continue;
-      try {
-        entry.ws.send(message);
-      } catch (e) {
-        // Handle broken connections
-        this.sessions.delete(id);
+  // Everyone in the room, including sessions held for a resume (nobody has seen them leave).
+  private getRoomState(): Extract<ServerMessage, { type: "room-state" }> {
+    const participants: Participant[] = [];
+    for (const [clientId, ws] of this.getSessions()) {
+      const session = this.getAttachment(ws);
+      if (!session) continue;
+      participants.push({
+        clientId,
+        profile: session.profile,
+        muted: session.muted,
+        joinedAt: session.joinedAt ?? Date.now(),
+      });
+    }
+    for (const [clientId, held] of Object.entries(this.getHeldSessions())) {
+      participants.push({ clientId, profile: held.profile, muted: held.muted, joinedAt: held.joinedAt });
+    }
+    participants.sort((a, b) => a.joinedAt - b.joinedAt);
+
+    return {
+      type: "room-state",
+      participants,
+      hostClientId: this.getHost(),
+      locked: this.isLocked(),
+      admissionRequired: this.isAdmissionRequired(),
+      audioProfile: this.getAudioProfile(),
+    };
+  }
+
+  private handleChat(ws: WebSocket, session: SessionAttachment, text: string) {
+    const clientId = session.clientId;
+    const now = Date.now();
+    const limit = this.chatRateLimits.get(clientId);
+    if (!limit || now - limit.windowStart > SignalingServer.CHAT_RATE_LIMIT_WINDOW_MS) {
+      this.chatRateLimits.set(clientId, { count: 1, windowStart: now });
+    } else if (++limit.count > SignalingServer.CHAT_RATE_LIMIT_MAX) {
+      this.sendError(ws, "rate-limited", {
+        message: "You're sending messages too quickly",
+        retryAfterMs: limit.windowStart + SignalingServer.CHAT_RATE_LIMIT_WINDOW_MS - now,
+      });
+      return;
+    }
+
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      senderClientId: clientId,
+      senderProfile: session.profile,
+      text,
+      sentAt: now,
+    };
+    const chatHistory = [...this.getChatHistory(), message].slice(-SignalingServer.CHAT_HISTORY_SIZE);
+    this.ctx.storage.kv.put("chatHistory", chatHistory);
+    this.broadcast({ type: "chat", message });
+  }
+
+  private handleAdmissionCommand(
+    ws: WebSocket,
+    clientId: string,
+    message: Extract<ClientMessage, { type: "set-admission" | "admit" | "deny" }>
+  ) {
+    if (this.getHost() !== clientId) {
+      this.sendError(ws, "not-host");
+      return;
+    }
+
+    if (message.type === "set-admission") {
+      this.ctx.storage.kv.put("admission", message.required);
+      this.broadcast({ type: "admission-changed", required: message.required });
+      // Turning the waiting room off lets everyone who was waiting in.
+      if (!message.required) {
+        for (const pending of this.getPendingSockets().values()) this.admit(pending);
       }
+      return;
+    }
+
+    const target = this.getPendingSockets().get(message.targetClientId);
+    if (!target) {
+      this.sendError(ws, "target-not-found", { targetClientId: message.targetClientId });
+      return;
+    }
+
+    if (message.type === "admit") {
+      this.admit(target);
+    } else {
+      console.log(`Host ${clientId} denied ${message.targetClientId}`);
+      this.rejectAndClose(target, "admission-denied");
     }
   }
 
-  private broadcastUserLeft(clientId: string) {
-    const message = JSON.stringify({ type: "user-left", clientId });
-    for (const [id, entry] of this.sessions) {
-      try {
-        entry.ws.send(message);
-      } catch (e) {
-        this.sessions.delete(id);
+  private handleAudioProfileCommand(ws: WebSocket, clientId: string, profile: AudioProfile) {
+    if (this.getHost() !== clientId) {
+      this.sendError(ws, "not-host");
+      return;
+    }
+    if (profile === this.getAudioProfile()) return;
+
+    this.ctx.storage.kv.put("audioProfile", profile);
+    this.broadcast({ type: "audio-profile-changed", profile });
+    console.log(`Host ${clientId} switched the room to the ${profile} audio profile`);
+  }
+
+  private handleLockCommand(ws: WebSocket, clientId: string, locked: boolean) {
+    if (this.getHost() !== clientId) {
+      this.sendError(ws, "not-host");
+      return;
+    }
+
+    this.ctx.storage.kv.put("locked", locked);
+    this.broadcast({ type: "lock-changed", locked });
+    console.log(`Host ${clientId} ${locked ? "locked" : "unlocked"} the room`);
+
+    // Locking also closes the door on anyone still in the waiting room.
+    if (locked) {
+      for (const pending of this.getPendingSockets().values()) {
+        this.rejectAndClose(pending, "room-locked");
       }
     }
   }
 
-  private relayMessage(message: Extract<Message, { targetClientId: string }>) {
-    const target = this.sessions.get(message.targetClientId);
-    if (target) {
-      try {
-        target.ws.send(JSON.stringify(message));
-      } catch (e) {
-        this.sessions.delete(message.targetClientId);
+  private admit(ws: WebSocket) {
+    const session = this.getAttachment(ws);
+    if (!session?.pending) return;
+
+    // The room may have filled up while they were waiting.
+    const capacity = this.getCapacity();
+    if (this.getOccupancy() >= capacity) {
+      this.rejectAndClose(ws, "room-full", {
+        message: `This room is limited to ${capacity} people`,
+      });
+      return;
+    }
+
+    this.sendMessage(ws, { type: "admitted" });
+    this.completeJoin(ws, session);
+  }
+
+  private handleHostCommand(
+    ws: WebSocket,
+    clientId: string,
+    message: Extract<ClientMessage, { type: "kick" | "ban" | "force-mute" | "transfer-host" }>
+  ) {
+    if (this.getHost() !== clientId) {
+      this.sendError(ws, "not-host");
+      return;
+    }
+    if (message.targetClientId === clientId) return;
+
+    const target = this.getSessions().get(message.targetClientId);
+
+    switch (message.type) {
+      case "ban":
+        // Recorded even if the target already left, so they can't come back.
+        this.ctx.storage.kv.put("bans", [...new Set([...this.getBans(), message.targetClientId])]);
+        if (target) this.rejectAndClose(target, "banned", { message: message.reason });
+        console.log(`Host ${clientId} banned ${message.targetClientId}`);
+        break;
+      case "kick":
+        if (target) this.rejectAndClose(target, "kicked", { message: message.reason });
+        console.log(`Host ${clientId} kicked ${message.targetClientId}`);
+        break;
+      case "force-mute": {
+        if (!target) break;
+        const targetSession = this.getAttachment(target);
+        if (targetSession) this.setAttachment(target, { ...targetSession, muted: true });
+        this.sendMessage(target, { type: "force-muted", byClientId: clientId });
+        // Tell everyone right away rather than waiting for the target's own mute-state.
+        this.broadcastMuteState(message.targetClientId, true);
+        break;
       }
-    } else {
-      console.warn(`Target client ${message.targetClientId} not found.`);
+      case "transfer-host":
+        if (target) this.setHost(message.targetClientId);
+        break;
+    }
+
+    // Someone inside their reconnect grace window has no socket to close; end the hold instead.
+    if (!target && (message.type === "kick" || message.type === "ban") && this.getHeldSessions()[message.targetClientId]) {
+      this.releaseSession(message.targetClientId);
+      return;
+    }
+
+    if (!target && message.type !== "ban") {
+      this.sendError(ws, "target-not-found", { targetClientId: message.targetClientId });
     }
   }
 
-  private broadcastMuteState(senderClientId: string, muted: boolean) {
-    const message = JSON.stringify({ type: "mute-state", senderClientId, muted });
-    for (const [id, entry] of this.sessions) {
-      if (id === senderClientId) continue;
-      try {
-        entry.ws.send(message);
-      } catch (e) {
-        this.sessions.delete(id);
+  // `hold` keeps a dropped session around for a resume instead of announcing the leave right away.
+  private handleDisconnect(ws: WebSocket, { hold = false }: { hold?: boolean } = {}) {
+    const session = this.getAttachment(ws);
+    if (session?.pending) {
+      this.setAttachment(ws, { ...session, pending: false });
+      this.sendToHost({ type: "knock-withdrawn", clientId: session.clientId });
+      return;
+    }
+    if (!session?.joined) return;
+
+    const clientId = session.clientId;
+    // Detach first so the socket is no longer counted as a session while we broadcast.
+    this.setAttachment(ws, { ...session, joined: false });
+
+    // A newer connection may already have taken over this clientId.
+    if (this.getSessions().has(clientId)) return;
+
+    const graceMs = reconnectGraceMs(this.env.RECONNECT_GRACE_SECONDS);
+    if (hold && graceMs > 0 && session.resumeToken) {
+      this.putHeldSession(clientId, {
+        resumeToken: session.resumeToken,
+        joinedAt: session.joinedAt ?? Date.now(),
+        muted: session.muted,
+        profile: session.profile,
+        expiresAt: Date.now() + graceMs,
+      });
+      console.log(`User dropped, holding session: ${clientId}`);
+      this.scheduleAlarm().catch((err) => console.error("Failed to schedule alarm:", err));
+      return;
+    }
+
+    this.releaseSession(clientId);
+  }
+
+  // Announces that a client left for good and tidies up after it.
+  private releaseSession(clientId: string) {
+    this.deleteHeldSession(clientId);
+    this.rateLimits.delete(clientId);
+    this.chatRateLimits.delete(clientId);
+    console.log(`User disconnected: ${clientId}`);
+    this.broadcastUserLeft(clientId);
+
+    const sessions = this.getSessions();
+    if (this.getOccupancy() === 0) {
+      this.resetRoomState();
+      if (this.getSessions().size === 0) {
+        // Start the idle clock; the alarm cleans the room up if nobody comes back.
+        this.ctx.storage.kv.put("emptySince", Date.now());
+        this.scheduleAlarm().catch((err) => console.error("Failed to schedule alarm:", err));
       }
+    } else if (this.getHost() === clientId) {
+      if (sessions.size === 0) {
+        // Only held sessions remain; whoever resumes first picks the role up in completeJoin.
+        this.ctx.storage.kv.delete("host");
+        return;
+      }
+      // Hand the host role to whoever has been here longest.
+      const [next] = [...sessions].sort(
+        ([, a], [, b]) => (this.getAttachment(a)?.joinedAt ?? 0) - (this.getAttachment(b)?.joinedAt ?? 0)
+      );
+      this.setHost(next[0]);
+    }
+  }
+
+  private releaseExpiredHolds() {
+    const now = Date.now();
+    for (const [clientId, held] of Object.entries(this.getHeldSessions())) {
+      if (held.expiresAt <= now) this.releaseSession(clientId);
     }
   }
 
-  private sendExistingMuteStates(targetWs: WebSocket) {
-    for (const [id, muted] of this.muteStates) {
+  // The room's life ends when the last person leaves: host, bans, lock, audio profile and the
+  // waiting room go with it.
+  // Creation config (capacity, passphrase) stays with the room id.
+  private resetRoomState() {
+    this.ctx.storage.kv.delete("host");
+    this.ctx.storage.kv.delete("bans");
+    this.ctx.storage.kv.delete("admission");
+    this.ctx.storage.kv.delete("locked");
+    this.ctx.storage.kv.delete("audioProfile");
+    this.ctx.storage.kv.delete("held");
+    this.ctx.storage.kv.delete("chatHistory");
+
+    // Nobody is left to let them in, so anyone still waiting starts the room afresh (as many
+    // as fit; `admit` turns the rest away with room-full).
+    for (const pending of this.getPendingSockets().values()) this.admit(pending);
+  }
+
+  // Ends the room for good: everyone is disconnected and all stored state is dropped, leaving
+  // only a tombstone so the link stays dead instead of silently starting a fresh room.
+  private async expireRoom() {
+    console.log("Room expired");
+    for (const ws of this.ctx.getWebSockets()) {
+      const session = this.getAttachment(ws);
+      // Detach without the usual leave handling; there is no room left to update.
+      if (session) this.setAttachment(ws, { ...session, joined: false, pending: false });
+      this.sendMessage(ws, { type: "error", code: "room-expired", fatal: true });
       try {
-        targetWs.send(JSON.stringify({ type: "mute-state", senderClientId: id, muted }));
-      } catch (e) {
-        // if we fail to send, let the regular message handlers deal with cleanup
+        ws.close(ERROR_CLOSE_CODES["room-expired"], "room-expired");
+      } catch {
+        // already closed
+      }
+    }
+    this.rateLimits.clear();
+    this.chatRateLimits.clear();
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+    this.ctx.storage.kv.put("expiredAt", Date.now());
+  }
+
+  private isExpired(): boolean {
+    return this.ctx.storage.kv.get<number>("expiredAt") !== undefined;
+  }
+
+  private markRoomStarted() {
+    if (this.ctx.storage.kv.get<number>("startedAt") === undefined) {
+      this.ctx.storage.kv.put("startedAt", Date.now());
+    }
+  }
+
+  // Upcoming lifecycle deadlines (epoch ms), or null for a room that hasn't started.
+  // warnAt is omitted once the warning went out; idleAt only applies while the room is empty.
+  private getDeadlines(): { expiresAt: number; warnAt?: number; idleAt?: number } | null {
+    const startedAt = this.ctx.storage.kv.get<number>("startedAt");
+    if (startedAt === undefined) return null;
+
+    const limits = roomLifetimeLimits(this.env);
+    const expiresAt = startedAt + limits.maxLifetimeMs;
+    const emptySince = this.ctx.storage.kv.get<number>("emptySince");
+    return {
+      expiresAt,
+      warnAt: this.ctx.storage.kv.get<boolean>("expiryWarned") ? undefined : expiresAt - limits.warningLeadMs,
+      idleAt: emptySince === undefined ? undefined : emptySince + limits.idleTimeoutMs,
+    };
+  }
+
+  private async scheduleAlarm() {
+    if (this.isExpired()) return;
+
+    const candidates: number[] = [];
+    const deadlines = this.getDeadlines();
+    if (deadlines) {
+      candidates.push(
+        ...[deadlines.expiresAt, deadlines.warnAt, deadlines.idleAt].filter((t) => t !== undefined)
+      );
+    }
+    for (const held of Object.values(this.getHeldSessions())) {
+      candidates.push(held.expiresAt);
+    }
+    const sockets = this.ctx.getWebSockets();
+    if (sockets.length > 0) {
+      const firstStale = Math.min(...sockets.map((ws) => this.staleAt(ws)));
+      candidates.push(Math.max(firstStale, Date.now() + SignalingServer.STALE_SOCKET_MIN_SWEEP_MS));
+    }
+    if (candidates.length === 0) return;
+
+    // An earlier alarm is left alone; it reschedules from here when it fires.
+    const next = Math.min(...candidates);
+    const current = await this.ctx.storage.getAlarm();
+    if (current === null || current > next) {
+      await this.ctx.storage.setAlarm(next);
+    }
+  }
+
+  // When a socket counts as dead if no ping arrives before then (epoch ms).
+  private staleAt(ws: WebSocket): number {
+    const lastPing = this.ctx.getWebSocketAutoResponseTimestamp(ws)?.getTime() ?? 0;
+    const connectedAt = this.getAttachment(ws)?.connectedAt ?? 0;
+    return Math.max(lastPing, connectedAt) + HEARTBEAT_INTERVAL_MS * HEARTBEAT_MAX_MISSED;
+  }
+
+  // Closes sockets that stopped sending heartbeats (phones that lost signal rarely send a close frame).
+  // Their sessions are held like any other drop, so the usual user-left follows once the grace window ends.
+  private evictStaleSockets() {
+    const now = Date.now();
+    for (const ws of this.ctx.getWebSockets()) {
+      const session = this.getAttachment(ws);
+      if (!session) continue;
+      if (this.staleAt(ws) <= now) {
+        console.log(`Evicting unresponsive socket: ${session.clientId}`);
+        this.rejectAndClose(ws, "heartbeat-timeout", {}, { hold: true });
+      }
+    }
+  }
+
+  // Drops rate-limit windows that have ended for clients who are no longer connected.
+  private pruneRateLimits() {
+    const now = Date.now();
+    const sessions = this.getSessions();
+    for (const [clientId, limit] of this.rateLimits) {
+      if (!sessions.has(clientId) && now - limit.windowStart > SignalingServer.RATE_LIMIT_WINDOW_MS) {
+        this.rateLimits.delete(clientId);
+      }
+    }
+    for (const [clientId, limit] of this.chatRateLimits) {
+      if (!sessions.has(clientId) && now - limit.windowStart > SignalingServer.CHAT_RATE_LIMIT_WINDOW_MS) {
+        this.chatRateLimits.delete(clientId);
       }
     }
   }
 
-  private consumeRateLimit(clientId: string): boolean {
+  // Verifies a guess unless this guesser is still waiting out its backoff, in which case the
+  // guess isn't even checked. `retryAfterMs` is only set for throttled guesses.
+  private async attemptPassphrase(
+    passphrase: string,
+    hash: PassphraseHash,
+    guesser: PassphraseGuesser
+  ): Promise<PassphraseCheck> {
+    const keys = [
+      guesser.clientId && `client:${guesser.clientId}`,
+      guesser.ip && `ip:${guesser.ip}`,
+    ].filter((key): key is string => Boolean(key));
+    const now = Date.now();
+    const attempts = this.getPassphraseAttempts();
+
+    const retryAt = Math.max(0, ...keys.map((key) => attempts[key]?.retryAt ?? 0));
+    if (retryAt > now) return { ok: false, retryAfterMs: retryAt - now };
+
+    if (await verifyPassphrase(passphrase, hash)) {
+      // Only the client's own record: one success on a shared IP shouldn't clear a guesser's.
+      if (guesser.clientId && attempts[`client:${guesser.clientId}`]) {
+        delete attempts[`client:${guesser.clientId}`];
+        this.ctx.storage.kv.put("passphraseAttempts", attempts);
+      }
+      return { ok: true };
+    }
+
+    for (const key of keys) {
+      const failures = (attempts[key]?.failures ?? 0) + 1;
+      const excess = failures - SignalingServer.PASSPHRASE_FREE_ATTEMPTS;
+      const backoff =
+        excess > 0 ? Math.min(SignalingServer.PASSPHRASE_MAX_BACKOFF_MS, 1000 * 2 ** excess) : 0;
+      attempts[key] = { failures, retryAt: now + backoff, lastFailureAt: now };
+    }
+    console.warn(`Wrong passphrase (${keys.join(", ") || "unknown guesser"})`);
+    this.ctx.storage.kv.put("passphraseAttempts", this.prunePassphraseAttempts(attempts, now));
+    return { ok: false };
+  }
+
+  private getPassphraseAttempts(): Record<string, PassphraseAttempts> {
+    return this.ctx.storage.kv.get<Record<string, PassphraseAttempts>>("passphraseAttempts") ?? {};
+  }
+
+  // Drops records nobody has added to for a while, then the oldest if there are still too many.
+  private prunePassphraseAttempts(attempts: Record<string, PassphraseAttempts>, now: number) {
+    const live = Object.entries(attempts)
+      .filter(([, a]) => now - a.lastFailureAt < SignalingServer.PASSPHRASE_ATTEMPTS_TTL_MS)
+      .sort(([, a], [, b]) => b.lastFailureAt - a.lastFailureAt)
+      .slice(0, SignalingServer.PASSPHRASE_ATTEMPTS_MAX_ENTRIES);
+    return Object.fromEntries(live);
+  }
+
+  private getHost(): string | null {
+    return this.ctx.storage.kv.get<string>("host") ?? null;
+  }
+
+  private setHost(clientId: string) {
+    this.ctx.storage.kv.put("host", clientId);
+    this.broadcast({ type: "host-changed", hostClientId: clientId });
+    // A new host needs to hear about everyone already waiting.
+    for (const [pendingId, pending] of this.getPendingSockets()) {
+      this.sendToHost({ type: "knock", clientId: pendingId, profile: this.getAttachment(pending)?.profile });
+    }
+  }
+
+  private sendToHost(message: ServerMessage) {
+    const host = this.getHost();
+    const ws = host ? this.getSessions().get(host) : undefined;
+    if (ws) this.sendMessage(ws, message);
+  }
+
+  private getAudioProfile(): AudioProfile {
+    return this.ctx.storage.kv.get<AudioProfile>("audioProfile") ?? DEFAULT_AUDIO_PROFILE;
+  }
+
+  private isLocked(): boolean {
+    return this.ctx.storage.kv.get<boolean>("locked") ?? false;
+  }
+
+  private isAdmissionRequired(): boolean {
+    return this.ctx.storage.kv.get<boolean>("admission") ?? false;
+  }
+
+  // Map<ClientId, WebSocket> of sockets parked in the waiting room
+  private getPendingSockets(): Map<string, WebSocket> {
+    const pending = new Map<string, WebSocket>();
+    for (const ws of this.ctx.getWebSockets()) {
+      const session = this.getAttachment(ws);
+      if (session?.pending) {
+        pending.set(session.clientId, ws);
+      }
+    }
+    return pending;
+  }
+
+  // Record<ClientId, HeldSession> for sessions inside their reconnect grace window
+  private getHeldSessions(): Record<string, HeldSession> {
+    return this.ctx.storage.kv.get<Record<string, HeldSession>>("held") ?? {};
+  }
+
+  private putHeldSession(clientId: string, held: HeldSession) {
+    this.ctx.storage.kv.put("held", { ...this.getHeldSessions(), [clientId]: held });
+  }
+
+  private deleteHeldSession(clientId: string) {
+    const { [clientId]: removed, ...rest } = this.getHeldSessions();
+    if (removed) this.ctx.storage.kv.put("held", rest);
+  }
+
+  // Joined sockets plus held sessions: both count towards capacity and keep the room alive.
+  private getOccupancy(): number {
+    return this.getSessions().size + Object.keys(this.getHeldSessions()).length;
+  }
+
+  private getChatHistory(): ChatMessage[] {
+    return this.ctx.storage.kv.get<ChatMessage[]>("chatHistory") ?? [];
+  }
+
+  private getBans(): string[] {
+    return this.ctx.storage.kv.get<string[]>("bans") ?? [];
+  }
+
+  // Persisted in the DO's SQLite storage so it survives hibernation and eviction
+  private getRoomConfig(): RoomConfig | undefined {
+    return this.ctx.storage.kv.get<RoomConfig>("config");
+  }
+
+  private getCapacity(): number {
+    return effectiveMaxParticipants(
+      deploymentMaxParticipants(this.env.MAX_PARTICIPANTS),
+      this.getRoomConfig()
+    );
+  }
+
+  private getAttachment(ws: WebSocket): SessionAttachment | null {
+    return (ws.deserializeAttachment() as SessionAttachment | null) ?? null;
+  }
+
+  private setAttachment(ws: WebSocket, attachment: SessionAttachment) {
+    ws.serializeAttachment(attachment);
+  }
+
+  // Map<ClientId, WebSocket>, rebuilt from the hibernatable sockets so it is always
+  // in sync with what the runtime considers connected.
+  private getSessions(): Map<string, WebSocket> {
+    const sessions = new Map<string, WebSocket>();
+    for (const ws of this.ctx.getWebSockets()) {
+      const session = this.getAttachment(ws);
+      if (session?.joined) {
+        sessions.set(session.clientId, ws);
+      }
+    }
+    return sessions;
+  }
+
+  private sendMessage(ws: WebSocket, message: ServerMessage) {
+    try {
+      ws.send(JSON.stringify(message));
+    } catch (e) {
+      // Broken connections are cleaned up by webSocketClose/webSocketError
+    }
+  }
+
+  private sendError(
+    ws: WebSocket,
+    code: SignalingErrorCode,
+    details: Partial<Omit<SignalingError, "type" | "code">> = {}
+  ) {
+    this.sendMessage(ws, { type: "error", code, fatal: false, ...details });
+  }
+
+  // Sends a fatal error frame and closes the socket with the matching close code.
+  private rejectAndClose(
+    ws: WebSocket,
+    code: SignalingErrorCode,
+    details: Partial<Omit<SignalingError, "type" | "code" | "fatal">> = {},
+    { hold = false }: { hold?: boolean } = {}
+  ) {
+    this.sendMessage(ws, { type: "error", code, ...details, fatal: true });
+    try {
+      ws.close(ERROR_CLOSE_CODES[code] ?? 4400, code);
+    } catch {
+      // already closed
+    }
+    // Don't wait for the client's close frame to drop the session (matters for kicks).
+    this.handleDisconnect(ws, { hold });
+  }
+
+  private broadcast(message: ServerMessage, excludeClientId?: string) {
+    for (const [id, ws] of this.getSessions()) {
+      if (id === excludeClientId) continue;
+      this.sendMessage(ws, message);
+    }
+  }
+
+  private broadcastUserJoined(newClientId: string, profile?: Profile) {
+    this.broadcast({ type: "user-joined", clientId: newClientId, profile }, newClientId);
+  }
+
+  private broadcastUserLeft(clientId: string) {
+    this.broadcast({ type: "user-left", clientId });
+  }
+
+  private relayMessage(senderWs: WebSocket, message: RelayedSignal) {
+    const target = this.getSessions().get(message.targetClientId);
+    if (target) {
+      this.sendMessage(target, message);
+    } else {
+      console.warn(`Target client ${message.targetClientId} not found.`);
+      this.sendError(senderWs, "target-not-found", { targetClientId: message.targetClientId });
+    }
+  }
+
+  private broadcastMuteState(senderClientId: string, muted: boolean) {
+    this.broadcast({ type: "mute-state", senderClientId, muted }, senderClientId);
+  }
+
+  // Returns false if the message should be dropped. The first rejected message in a window
+  // gets a `rate-limited` error with a retry hint; a client that keeps going is disconnected.
+  private consumeRateLimit(ws: WebSocket, clientId: string): boolean {
     const now = Date.now();
     const current = this.rateLimits.get(clientId);
     if (!current || now - current.windowStart > SignalingServer.RATE_LIMIT_WINDOW_MS) {
-      this.rateLimits.set(clientId, { count: 1, windowStart: now });
+      this.rateLimits.set(clientId, { count: 1, windowStart: now, notified: false });
       return true;
     }
 
-    if (current.count >= SignalingServer.RATE_LIMIT_MAX) {
-      return false;
+    current.count += 1;
+    if (current.count <= SignalingServer.RATE_LIMIT_MAX) {
+      return true;
     }
 
-    current.count += 1;
-    this.rateLimits.set(clientId, current);
-    return true;
+    const retryAfterMs = Math.max(0, current.windowStart + SignalingServer.RATE_LIMIT_WINDOW_MS - now);
+    if (current.count > SignalingServer.RATE_LIMIT_HARD_MAX) {
+      this.rejectAndClose(ws, "rate-limited", { retryAfterMs });
+    } else if (!current.notified) {
+      current.notified = true;
+      this.sendError(ws, "rate-limited", { retryAfterMs });
+    }
+    return false;
   }
 }
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SignalingTransport } from "~/hooks/useSignalingSocket";
+import type { PeerMessageHandler } from "~/hooks/useWebRTC";
+import type { PeerMessage } from "~/types/peer-messages";
+import {
+  MAX_CHAT_LENGTH,
+  decodeServerMessage,
+  type ChatMessage,
+  type Profile,
+} from "~/types/signaling";
+
+// Keeps a long session from growing without bound. More than the server replays to late joiners
+// (its last 50), since this also holds peer-to-peer messages the server never sees.
+const MAX_CHAT_MESSAGES = 200;
+
+const MODE_STORAGE_KEY = "sidechannel_chat_mode";
+
+// "server": relayed by the signaling server, which keeps recent history for late joiners.
+// "p2p": sent over each peer connection's data channel; the server never sees it.
+export type ChatMode = "server" | "p2p";
+
+export type ChatEntry = ChatMessage & {
+  transport: ChatMode;
+  // Own P2P messages only: who was in the room when it was sent, and who has acked it
+  recipients?: string[];
+  deliveredTo?: string[];
+};
+
+type PeerChat = Extract<PeerMessage, { type: "chat" }>;
+
+interface UseChatProps {
+  signaling: SignalingTransport;
+  clientId: string;
+  profile?: Profile;
+  // Everyone else in the room, connected or not
+  peerIds: string[];
+  openChannelPeerIds: Set<string>;
+  sendPeerMessage: (peerId: string, message: PeerMessage) => boolean;
+  onPeerMessage: (handler: PeerMessageHandler) => () => void;
+}
+
+function loadChatMode(): ChatMode {
+  try {
+    return window.localStorage.getItem(MODE_STORAGE_KEY) === "p2p" ? "p2p" : "server";
+  } catch {
+    return "server";
+  }
+}
+
+function appendEntries(prev: ChatEntry[], incoming: ChatEntry[]) {
+  // Server history is resent after every reconnect and P2P messages are resent until acked;
+  // keep each message once.
+  const seen = new Set(prev.map((m) => m.id));
+  const fresh = incoming.filter((m) => !seen.has(m.id));
+  if (fresh.length === 0) return prev;
+  return [...prev, ...fresh].sort((a, b) => a.sentAt - b.sentAt).slice(-MAX_CHAT_MESSAGES);
+}
+
+/**
+ * Room text chat, either relayed through the signaling server or sent peer-to-peer over
+ * the data channels useWebRTC opens. Server history is whatever the server still has in
+ * memory when we join; P2P messages only reach people in the room when they're sent.
+ */
+export function useChat({
+  signaling,
+  clientId,
+  profile,
+  peerIds,
+  openChannelPeerIds,
+  sendPeerMessage,
+  onPeerMessage,
+}: UseChatProps) {
+  const { socket, send } = signaling;
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  // Messages from others that arrived while the panel was closed
+  const [unread, setUnread] = useState(0);
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [mode, setModeState] = useState<ChatMode>(loadChatMode);
+
+  // Own P2P messages still waiting for an ack, by message id -> peers yet to ack
+  const pendingRef = useRef<Map<string, { message: PeerChat; peers: Set<string> }>>(new Map());
+  const sendPeerMessageRef = useRef(sendPeerMessage);
+  sendPeerMessageRef.current = sendPeerMessage;
+  const panelOpenRef = useRef(panelOpen);
+  panelOpenRef.current = panelOpen;
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const decoded = decodeServerMessage(event.data);
+      if (!decoded.ok) return;
+      const message = decoded.message;
+
+      if (message.type === "chat-history" || message.type === "chat") {
+        const incoming = message.type === "chat" ? [message.message] : message.messages;
+        setMessages((prev) =>
+          appendEntries(
+            prev,
+            incoming.map((m) => ({ ...m, transport: "server" as const }))
+          )
+        );
+        // Only live messages count; replayed history was never "new" to us.
+        if (message.type === "chat" && !panelOpen && message.message.senderClientId !== clientId) {
+          setUnread((n) => n + 1);
+        }
+      }
+    };
+
+    socket.addEventListener("message", handleMessage);
+    return () => socket.removeEventListener("message", handleMessage);
+  }, [socket, clientId, panelOpen]);
+
+  // Incoming P2P chat and acks for our own
+  useEffect(() => {
+    const seen = new Set<string>();
+
+    return onPeerMessage((peerId, message) => {
+      switch (message.type) {
+        case "chat": {
+          // Ack every copy: the sender resends until it hears back, and our first ack may
+          // have been lost with the connection.
+          sendPeerMessageRef.current(peerId, { type: "chat-ack", id: message.id });
+          if (seen.has(message.id)) return;
+          seen.add(message.id);
+          setMessages((prev) =>
+            appendEntries(prev, [
+              {
+                id: message.id,
+                senderClientId: peerId,
+                senderProfile: message.profile,
+                text: message.text,
+                sentAt: message.sentAt,
+                transport: "p2p",
+              },
+            ])
+          );
+          if (!panelOpenRef.current) setUnread((n) => n + 1);
+          break;
+        }
+        case "chat-ack": {
+          const pending = pendingRef.current.get(message.id);
+          if (!pending?.peers.delete(peerId)) return;
+          if (pending.peers.size === 0) pendingRef.current.delete(message.id);
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.id === message.id && !m.deliveredTo?.includes(peerId)
+                ? { ...m, deliveredTo: [...(m.deliveredTo ?? []), peerId] }
+                : m
+            )
+          );
+          break;
+        }
+      }
+    });
+  }, [onPeerMessage]);
+
+  // Deliver pending messages to peers whose channel has just opened (late connections,
+  // reconnects). Peers who left the room will never ack; stop waiting for them.
+  const previousOpenRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const present = new Set(peerIds);
+    for (const [id, pending] of pendingRef.current) {
+      for (const peerId of pending.peers) {
+        if (!present.has(peerId)) {
+          pending.peers.delete(peerId);
+        } else if (openChannelPeerIds.has(peerId) && !previousOpenRef.current.has(peerId)) {
+          sendPeerMessageRef.current(peerId, pending.message);
+        }
+      }
+      if (pending.peers.size === 0) pendingRef.current.delete(id);
+    }
+    previousOpenRef.current = openChannelPeerIds;
+  }, [peerIds, openChannelPeerIds]);
+
+  const sendChat = useCallback(
+    (text: string) => {
+      const trimmed = text.trim();
+      if (!trimmed || trimmed.length > MAX_CHAT_LENGTH) return false;
+
+      if (mode === "server") {
+        send({ type: "chat", text: trimmed });
+        return true;
+      }
+
+      const message: PeerChat = {
+        type: "chat",
+        id: crypto.randomUUID(),
+        text: trimmed,
+        sentAt: Date.now(),
+        profile,
+      };
+      // Peers without an open channel yet get it when their channel opens.
+      peerIds.forEach((peerId) => sendPeerMessageRef.current(peerId, message));
+      if (peerIds.length > 0) {
+        pendingRef.current.set(message.id, { message, peers: new Set(peerIds) });
+      }
+      setMessages((prev) =>
+        appendEntries(prev, [
+          {
+            id: message.id,
+            senderClientId: clientId,
+            senderProfile: profile,
+            text: trimmed,
+            sentAt: message.sentAt,
+            transport: "p2p",
+            recipients: peerIds,
+            deliveredTo: [],
+          },
+        ])
+      );
+      return true;
+    },
+    [mode, send, clientId, profile, peerIds]
+  );
+
+  const setMode = useCallback((next: ChatMode) => {
+    setModeState(next);
+    try {
+      window.localStorage.setItem(MODE_STORAGE_KEY, next);
+    } catch {
+      // Storage blocked; the choice still applies for this visit.
+    }
+  }, []);
+
+  const setChatOpen = useCallback((open: boolean) => {
+    setPanelOpen(open);
+    if (open) setUnread(0);
+  }, []);
+
+  return { messages, unread, chatOpen: panelOpen, setChatOpen, sendChat, mode, setMode };
+}
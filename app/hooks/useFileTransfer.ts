@@ -0,0 +1,390 @@
+import { useEffect, useRef, useState } from "react";
+import type { PeerChannelHandler, PeerMessageHandler } from "~/hooks/useWebRTC";
+import {
+  FILE_CHANNEL_PREFIX,
+  MAX_FILE_NAME_LENGTH,
+  MAX_FILE_SIZE,
+  type PeerMessage,
+} from "~/types/peer-messages";
+
+// 16 KiB is the largest message every browser pair agrees on.
+const CHUNK_SIZE = 16 * 1024;
+// Stop queueing once this much is buffered, and resume when it drains below the low mark.
+const HIGH_WATER_MARK = 1024 * 1024;
+const LOW_WATER_MARK = 256 * 1024;
+// Progress bars don't need a re-render per chunk.
+const PROGRESS_INTERVAL_MS = 100;
+
+export type TransferStatus =
+  | "offered" // waiting for the receiver to accept
+  | "transferring"
+  | "verifying" // all bytes are through; the receiver is checking the digest
+  | "done"
+  | "declined"
+  | "cancelled"
+  | "failed";
+
+export type FileTransfer = {
+  id: string;
+  peerId: string;
+  direction: "send" | "receive";
+  name: string;
+  size: number;
+  mimeType: string;
+  status: TransferStatus;
+  bytes: number;
+  error?: string;
+  // Received files only, once verified: an object URL to download from
+  url?: string;
+};
+
+export type SendFileResult = "sent" | "too-large" | "no-peers";
+
+const FINISHED: ReadonlySet<TransferStatus> = new Set(["done", "declined", "cancelled", "failed"]);
+
+// What the hook tracks per transfer outside React state, since channel callbacks need it
+// synchronously.
+type TransferRecord = {
+  peerId: string;
+  direction: "send" | "receive";
+  size: number;
+  mimeType: string;
+  sha256: string;
+  status: TransferStatus;
+  file?: File;
+  channel?: RTCDataChannel;
+  chunks: ArrayBuffer[];
+  received: number;
+  lastProgressAt: number;
+};
+
+interface UseFileTransferProps {
+  // Everyone else in the room, connected or not
+  peerIds: string[];
+  sendPeerMessage: (peerId: string, message: PeerMessage) => boolean;
+  onPeerMessage: (handler: PeerMessageHandler) => () => void;
+  openPeerChannel: (peerId: string, label: string) => RTCDataChannel | null;
+  onPeerChannel: (handler: PeerChannelHandler) => () => void;
+}
+
+async function sha256Hex(data: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Resolves once the channel's buffer drains below its low threshold (or the channel closes).
+function waitForDrain(channel: RTCDataChannel) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      channel.removeEventListener("bufferedamountlow", done);
+      channel.removeEventListener("close", done);
+      resolve();
+    };
+    channel.addEventListener("bufferedamountlow", done);
+    channel.addEventListener("close", done);
+  });
+}
+
+/**
+ * Sending files straight to peers over data channels on the connections useWebRTC manages.
+ * The sender offers (name, size, SHA-256), the receiver accepts, and only then does the
+ * sender open a channel for the bytes. The receiver checks the digest before offering the
+ * file for download.
+ */
+export function useFileTransfer({
+  peerIds,
+  sendPeerMessage,
+  onPeerMessage,
+  openPeerChannel,
+  onPeerChannel,
+}: UseFileTransferProps) {
+  const [transfers, setTransfers] = useState<FileTransfer[]>([]);
+  const transfersRef = useRef(transfers);
+  transfersRef.current = transfers;
+  const records = useRef<Map<string, TransferRecord>>(new Map());
+  const sendPeerMessageRef = useRef(sendPeerMessage);
+  sendPeerMessageRef.current = sendPeerMessage;
+  const openPeerChannelRef = useRef(openPeerChannel);
+  openPeerChannelRef.current = openPeerChannel;
+
+  const update = (id: string, patch: Partial<FileTransfer>) => {
+    const record = records.current.get(id);
+    if (record && patch.status) record.status = patch.status;
+    setTransfers((prev) => prev.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const finish = (id: string, status: TransferStatus, error?: string) => {
+    const record = records.current.get(id);
+    if (!record || FINISHED.has(record.status)) return;
+    record.channel?.close();
+    record.channel = undefined;
+    record.chunks = [];
+    record.file = undefined;
+    update(id, { status, error });
+  };
+
+  const reportProgress = (id: string, record: TransferRecord, bytes: number) => {
+    const now = Date.now();
+    if (now - record.lastProgressAt < PROGRESS_INTERVAL_MS && bytes < record.size) return;
+    record.lastProgressAt = now;
+    update(id, { bytes });
+  };
+
+  const pump = async (id: string, record: TransferRecord, channel: RTCDataChannel) => {
+    const file = record.file;
+    if (!file) return;
+    let offset = 0;
+    while (offset < file.size) {
+      if (record.status !== "transferring") return;
+      if (channel.bufferedAmount > HIGH_WATER_MARK) {
+        await waitForDrain(channel);
+        continue;
+      }
+      const chunk = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+      if (record.status !== "transferring") return;
+      if (channel.readyState !== "open") throw new Error("Connection lost");
+      channel.send(chunk);
+      offset += chunk.byteLength;
+      reportProgress(id, record, offset);
+    }
+    update(id, { status: "verifying", bytes: file.size });
+  };
+
+  const verify = async (id: string, record: TransferRecord) => {
+    update(id, { status: "verifying", bytes: record.size });
+    const blob = new Blob(record.chunks, { type: record.mimeType });
+    record.chunks = [];
+    const ok = (await sha256Hex(await blob.arrayBuffer())) === record.sha256;
+    if (record.status !== "verifying") return; // cancelled meanwhile
+    sendPeerMessageRef.current(record.peerId, { type: "file-result", transferId: id, ok });
+    if (!ok) {
+      finish(id, "failed", "The file was corrupted in transit");
+      return;
+    }
+    record.channel?.close();
+    record.channel = undefined;
+    update(id, { status: "done", url: URL.createObjectURL(blob) });
+  };
+
+  // Offers, answers and results on the main channel
+  useEffect(() => {
+    return onPeerMessage((peerId, message) => {
+      if (message.type === "chat" || message.type === "chat-ack") return;
+      const record = records.current.get(message.transferId);
+
+      switch (message.type) {
+        case "file-offer": {
+          if (record) return;
+          records.current.set(message.transferId, {
+            peerId,
+            direction: "receive",
+            size: message.size,
+            mimeType: message.mimeType,
+            sha256: message.sha256,
+            status: "offered",
+            chunks: [],
+            received: 0,
+            lastProgressAt: 0,
+          });
+          setTransfers((prev) => [
+            ...prev,
+            {
+              id: message.transferId,
+              peerId,
+              direction: "receive",
+              name: message.name,
+              size: message.size,
+              mimeType: message.mimeType,
+              status: "offered",
+              bytes: 0,
+            },
+          ]);
+          break;
+        }
+        case "file-accept": {
+          if (record?.peerId !== peerId || record.direction !== "send" || record.status !== "offered") return;
+          const channel = openPeerChannelRef.current(peerId, FILE_CHANNEL_PREFIX + message.transferId);
+          if (!channel) {
+            finish(message.transferId, "failed", "Not connected to this peer");
+            return;
+          }
+          record.channel = channel;
+          channel.binaryType = "arraybuffer";
+          channel.bufferedAmountLowThreshold = LOW_WATER_MARK;
+          channel.onopen = () => {
+            pump(message.transferId, record, channel).catch((err) => {
+              console.warn("[useFileTransfer] Send failed:", err);
+              finish(message.transferId, "failed", "Connection lost");
+            });
+          };
+          channel.onclose = () => {
+            if (record.status === "transferring") finish(message.transferId, "failed", "Connection lost");
+          };
+          update(message.transferId, { status: "transferring" });
+          break;
+        }
+        case "file-decline":
+          if (record?.peerId === peerId && record.direction === "send") {
+            finish(message.transferId, "declined");
+          }
+          break;
+        case "file-cancel":
+          if (record?.peerId === peerId) {
+            finish(message.transferId, "cancelled", "Cancelled by the other side");
+          }
+          break;
+        case "file-result":
+          if (record?.peerId !== peerId || record.direction !== "send") return;
+          if (message.ok) {
+            record.channel?.close();
+            record.channel = undefined;
+            record.file = undefined;
+            update(message.transferId, { status: "done", bytes: record.size });
+          } else {
+            finish(message.transferId, "failed", "The receiver's integrity check failed");
+          }
+          break;
+      }
+    });
+  }, [onPeerMessage]);
+
+  // Byte channels the sender opens after we accept
+  useEffect(() => {
+    return onPeerChannel((peerId, channel) => {
+      if (!channel.label.startsWith(FILE_CHANNEL_PREFIX)) return;
+      const id = channel.label.slice(FILE_CHANNEL_PREFIX.length);
+      const record = records.current.get(id);
+      // Only for a transfer we accepted from this very peer: no bytes without consent.
+      if (
+        record?.peerId !== peerId ||
+        record.direction !== "receive" ||
+        record.status !== "transferring" ||
+        record.channel
+      ) {
+        channel.close();
+        return;
+      }
+
+      record.channel = channel;
+      channel.binaryType = "arraybuffer";
+      channel.onmessage = (event) => {
+        if (record.status !== "transferring") return;
+        if (!(event.data instanceof ArrayBuffer)) return;
+        record.chunks.push(event.data);
+        record.received += event.data.byteLength;
+        if (record.received > record.size) {
+          sendPeerMessageRef.current(peerId, { type: "file-cancel", transferId: id });
+          finish(id, "failed", "Received more data than offered");
+          return;
+        }
+        reportProgress(id, record, record.received);
+        if (record.received === record.size) {
+          verify(id, record).catch(() => finish(id, "failed", "Couldn't check the file"));
+        }
+      };
+      channel.onclose = () => {
+        if (record.status === "transferring") finish(id, "failed", "Connection lost");
+      };
+      // Nothing will arrive for an empty file
+      if (record.size === 0) {
+        verify(id, record).catch(() => finish(id, "failed", "Couldn't check the file"));
+      }
+    });
+  }, [onPeerChannel]);
+
+  // Transfers with someone who left can't finish
+  useEffect(() => {
+    const present = new Set(peerIds);
+    for (const [id, record] of records.current) {
+      if (!present.has(record.peerId) && !FINISHED.has(record.status)) {
+        finish(id, "failed", "Left the room");
+      }
+    }
+  }, [peerIds]);
+
+  // Release channels, buffers and download URLs with the room
+  useEffect(() => {
+    const current = records.current;
+    return () => {
+      for (const record of current.values()) record.channel?.close();
+      current.clear();
+      for (const t of transfersRef.current) if (t.url) URL.revokeObjectURL(t.url);
+    };
+  }, []);
+
+  // Offers the file to one peer, or to everyone in the room when `peerId` is omitted.
+  const sendFile = async (file: File, peerId?: string): Promise<SendFileResult> => {
+    if (file.size > MAX_FILE_SIZE) return "too-large";
+    const targets = peerId ? [peerId] : peerIds;
+    if (targets.length === 0) return "no-peers";
+
+    const sha256 = await sha256Hex(await file.arrayBuffer());
+    const name = file.name.slice(0, MAX_FILE_NAME_LENGTH) || "file";
+    const mimeType = file.type.slice(0, 255);
+
+    for (const target of targets) {
+      const id = crypto.randomUUID();
+      records.current.set(id, {
+        peerId: target,
+        direction: "send",
+        size: file.size,
+        mimeType,
+        sha256,
+        status: "offered",
+        file,
+        chunks: [],
+        received: 0,
+        lastProgressAt: 0,
+      });
+      setTransfers((prev) => [
+        ...prev,
+        { id, peerId: target, direction: "send", name, size: file.size, mimeType, status: "offered", bytes: 0 },
+      ]);
+      const sent = sendPeerMessageRef.current(target, {
+        type: "file-offer",
+        transferId: id,
+        name,
+        size: file.size,
+        mimeType,
+        sha256,
+      });
+      if (!sent) finish(id, "failed", "Not connected to this peer");
+    }
+    return "sent";
+  };
+
+  const acceptTransfer = (id: string) => {
+    const record = records.current.get(id);
+    if (record?.direction !== "receive" || record.status !== "offered") return;
+    if (!sendPeerMessageRef.current(record.peerId, { type: "file-accept", transferId: id })) {
+      finish(id, "failed", "Not connected to this peer");
+      return;
+    }
+    update(id, { status: "transferring" });
+  };
+
+  const declineTransfer = (id: string) => {
+    const record = records.current.get(id);
+    if (record?.direction !== "receive" || record.status !== "offered") return;
+    sendPeerMessageRef.current(record.peerId, { type: "file-decline", transferId: id });
+    finish(id, "declined");
+  };
+
+  const cancelTransfer = (id: string) => {
+    const record = records.current.get(id);
+    if (!record || FINISHED.has(record.status)) return;
+    sendPeerMessageRef.current(record.peerId, { type: "file-cancel", transferId: id });
+    finish(id, "cancelled");
+  };
+
+  // Removes a transfer from the list, cancelling it first if it's still running.
+  const dismissTransfer = (id: string) => {
+    cancelTransfer(id);
+    records.current.delete(id);
+    const url = transfersRef.current.find((t) => t.id === id)?.url;
+    if (url) URL.revokeObjectURL(url);
+    setTransfers((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  return { transfers, sendFile, acceptTransfer, declineTransfer, cancelTransfer, dismissTransfer };
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { describeSignalingError } from "~/lib/signaling-errors";
+import {
+  HEARTBEAT_INTERVAL_MS,
+  HEARTBEAT_PING,
+  decodeServerMessage,
+  type ClientMessage,
+} from "~/types/signaling";
+
+// Reconnect delays grow from BACKOFF_BASE_MS up to BACKOFF_MAX_MS, with jitter so a room
+// full of clients that lost the same server doesn't reconnect in lockstep.
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 15_000;
+// Signals sent while disconnected wait here; past this the oldest are dropped.
+const MAX_QUEUED_MESSAGES = 100;
+// Consecutive sockets that never opened (while online) before giving up. An upgrade the server
+// refuses, e.g. an expired join token, fails this way every time; about a minute of backoff.
+const MAX_FAILED_OPENS = 8;
+
+// "failed": gave up after MAX_FAILED_OPENS; a reload fetches a fresh join token
+export type SignalingStatus = "connecting" | "connected" | "reconnecting" | "closed" | "failed";
+
+export type SignalingTransport = {
+  // The current socket. Replaced on every reconnect; listen to this one for server frames.
+  socket: WebSocket | null;
+  status: SignalingStatus;
+  // Sends now if the session is live, otherwise queues until the next `session` frame.
+  send: (message: ClientMessage) => void;
+  // Stops reconnecting and closes the socket
+  close: () => void;
+};
+
+// Equal jitter: half the exponential delay is fixed, the other half random.
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/**
+ * Signaling WebSocket that survives network drops.
+ *
+ * Reconnects with exponential backoff until the server ends the session with a fatal error,
+ * runs the heartbeat, and queues outgoing messages until the new socket has re-joined.
+ * Joining itself is left to `useWebRTC`, which re-joins (with its resume token) on each new socket.
+ */
+export function useSignalingSocket(url: string | null): SignalingTransport {
+  const [socket, setSocket] = useState<WebSocket | null>(null);
+  const [status, setStatus] = useState<SignalingStatus>("connecting");
+
+  const socketRef = useRef<WebSocket | null>(null);
+  // True once the current socket has received its `session` frame
+  const readyRef = useRef(false);
+  const queueRef = useRef<ClientMessage[]>([]);
+  // Set by close() or a fatal server error; no more reconnects after that
+  const stoppedRef = useRef(false);
+
+  useEffect(() => {
+    if (!url) return;
+
+    stoppedRef.current = false;
+    let disposed = false;
+    let attempt = 0;
+    let failedOpens = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+    const flush = (ws: WebSocket, resumed: boolean) => {
+      let queued = queueRef.current;
+      queueRef.current = [];
+      // A fresh session means every peer renegotiates from scratch; old signals would only confuse it.
+      if (!resumed) {
+        queued = queued.filter((m) => m.type !== "offer" && m.type !== "answer" && m.type !== "ice-candidate");
+      }
+      for (const message of queued) ws.send(JSON.stringify(message));
+    };
+
+    // Handles a socket going away, whether it closed or the heartbeat gave up on it.
+    const drop = (ws: WebSocket, opened: boolean) => {
+      if (socketRef.current !== ws) return;
+      clearInterval(heartbeat);
+      socketRef.current = null;
+      readyRef.current = false;
+      if (disposed) return;
+      if (stoppedRef.current) {
+        setStatus("closed");
+        return;
+      }
+      // Offline, every attempt fails; that's the network, not the server turning us away.
+      if (opened) failedOpens = 0;
+      else if (navigator.onLine !== false) failedOpens++;
+      if (failedOpens >= MAX_FAILED_OPENS) {
+        console.warn("[signaling] The server keeps refusing the connection; giving up");
+        stoppedRef.current = true;
+        setStatus("failed");
+        return;
+      }
+      setStatus("reconnecting");
+      retryTimer = setTimeout(connect, backoffDelay(attempt++));
+    };
+
+    const connect = () => {
+      if (disposed || stoppedRef.current) return;
+
+      const ws = new WebSocket(url);
+      socketRef.current = ws;
+      readyRef.current = false;
+      setSocket(ws);
+
+      // A socket to a vanished server can sit "open" for minutes, so treat two silent
+      // heartbeat intervals as a dead connection instead of waiting for a close.
+      let lastFrameAt = Date.now();
+      let opened = false;
+
+      ws.addEventListener("open", () => {
+        opened = true;
+        setStatus("connected");
+        lastFrameAt = Date.now();
+        heartbeat = setInterval(() => {
+          if (Date.now() - lastFrameAt > HEARTBEAT_INTERVAL_MS * 2) {
+            console.warn("[signaling] Heartbeat lost, reconnecting");
+            ws.close();
+            drop(ws, true);
+            return;
+          }
+          if (ws.readyState === WebSocket.OPEN) ws.send(HEARTBEAT_PING);
+        }, HEARTBEAT_INTERVAL_MS);
+      });
+
+      ws.addEventListener("message", (event) => {
+        lastFrameAt = Date.now();
+        const decoded = decodeServerMessage(event.data);
+        if (!decoded.ok) return;
+
+        const message = decoded.message;
+        if (message.type === "session") {
+          attempt = 0;
+          readyRef.current = true;
+          flush(ws, message.resumed);
+        } else if (
+          message.type === "error" &&
+          message.fatal &&
+          describeSignalingError(message).recovery !== "reconnect"
+        ) {
+          // Kicked, room full, expired...: reconnecting would only be turned away again.
+          stoppedRef.current = true;
+        }
+      });
+
+      ws.addEventListener("close", () => drop(ws, opened));
+    };
+
+    // Leaving the page is an intentional exit: say so, so the server doesn't hold the session,
+    // and don't reconnect from the background. `pagehide` is the unload event mobile browsers
+    // reliably fire, and it doesn't block the bfcache like `beforeunload`.
+    const onPageHide = () => {
+      const ws = socketRef.current;
+      stoppedRef.current = true;
+      clearTimeout(retryTimer);
+      if (ws?.readyState === WebSocket.OPEN) {
+        if (readyRef.current) ws.send(JSON.stringify({ type: "leave" } satisfies ClientMessage));
+        ws.close();
+      }
+    };
+    // Restored from the bfcache: start over (the session was released on the way out).
+    const onPageShow = (event: PageTransitionEvent) => {
+      if (!event.persisted) return;
+      stoppedRef.current = false;
+      attempt = 0;
+      failedOpens = 0;
+      setStatus("reconnecting");
+      connect();
+    };
+    window.addEventListener("pagehide", onPageHide);
+    window.addEventListener("pageshow", onPageShow);
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      clearInterval(heartbeat);
+      window.removeEventListener("pagehide", onPageHide);
+      window.removeEventListener("pageshow", onPageShow);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [url]);
+
+  const send = useCallback((message: ClientMessage) => {
+    const ws = socketRef.current;
+    const open = ws?.readyState === WebSocket.OPEN;
+
+    // `join` opens a session and `leave` ends one; neither makes sense to replay later.
+    if (message.type === "join" || message.type === "leave") {
+      if (open) ws.send(JSON.stringify(message));
+      return;
+    }
+
+    if (open && readyRef.current) {
+      ws.send(JSON.stringify(message));
+      return;
+    }
+    queueRef.current.push(message);
+    if (queueRef.current.length > MAX_QUEUED_MESSAGES) queueRef.current.shift();
+  }, []);
+
+  const close = useCallback(() => {
+    stoppedRef.current = true;
+    queueRef.current = [];
+    socketRef.current?.close();
+    setStatus("closed");
+  }, []);
+
+  return { socket, status, send, close };
+}
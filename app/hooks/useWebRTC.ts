@@ -1,13 +1,46 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import type { SignalMessage } from "~/types/signaling";
-
-const STUN_SERVERS = {
-  iceServers: [
-    {
-      urls: "stun:stun.l.google.com:19302",
-    },
-  ],
-};
+import {
+  DEFAULT_AUDIO_PROFILE,
+  PROTOCOL_VERSION,
+  decodeServerMessage,
+  type AudioProfile,
+  type ClientMessage,
+  type Profile,
+  type ServerMessage,
+  type SignalingError,
+} from "~/types/signaling";
+import {
+  PEER_CHANNEL_ID,
+  PEER_CHANNEL_LABEL,
+  decodePeerMessage,
+  type PeerMessage,
+} from "~/types/peer-messages";
+import { describeSignalingError } from "~/lib/signaling-errors";
+import { summarizeStats, type PeerStats, type StatsSample } from "~/lib/peer-stats";
+import {
+  FALLBACK_ICE_SERVERS,
+  loadRelayOnly,
+  saveRelayOnly,
+  type IceServersConfig,
+} from "~/lib/ice-servers";
+import {
+  AUDIO_PROFILE_PRESETS,
+  applyOpusParameters,
+  preferredAudioCodecs,
+} from "~/lib/audio-profiles";
+import {
+  applyLatencyTarget,
+  latencyControlSupported,
+  loadLatencyTarget,
+  saveLatencyTarget,
+} from "~/lib/latency";
+import type { SignalingTransport } from "~/hooks/useSignalingSocket";
+
+// How often connection quality is sampled
+const STATS_INTERVAL_MS = 2000;
+
+// Refresh TURN credentials this far into their lifetime, so restarts never use stale ones
+const ICE_CONFIG_REFRESH_FRACTION = 0.8;
 
 const MEDIA_CONSTRAINTS = {
   audio: {
@@ -22,17 +55,109 @@ const MEDIA_CONSTRAINTS = {
 
 interface UseWebRTCProps {
   roomId: string;
-  socket: WebSocket | null;
+  signaling: SignalingTransport;
   clientId: string | null;
+  // Sent with `join` for passphrase-protected rooms
+  passphrase?: string;
+  // Display name and avatar, sent with `join`
+  profile?: Profile;
 }
 
+// Where the peer connection stands, as shown on the peer's card
+export type PeerConnectionHealth = "connecting" | "connected" | "reconnecting" | "failed";
+
 export type PeerModel = {
   id: string;
-  stream: MediaStream;
+  // Null until the peer connection delivers audio; the card shows "connecting" meanwhile
+  stream: MediaStream | null;
   muted: boolean;
+  profile?: Profile;
+  connection: PeerConnectionHealth;
+};
+
+// Someone in the waiting room, as seen by the host
+export type Knock = {
+  clientId: string;
+  profile?: Profile;
+};
+
+// `disconnected` often clears up by itself; give it this long before restarting ICE.
+const DISCONNECTED_GRACE_MS = 3000;
+// How long an ICE restart or rebuild gets to connect before the next attempt
+const RECOVERY_CHECK_MS = 10_000;
+// ICE restarts per connection before replacing it, and replacements before giving up
+// (until the network changes)
+const MAX_ICE_RESTARTS = 2;
+const MAX_REBUILDS = 2;
+
+// The DTLS fingerprint identifies the remote RTCPeerConnection; a new one means the peer
+// replaced its connection and ours has to be replaced to match.
+function sdpFingerprint(sdp: string | undefined) {
+  return sdp?.match(/^a=fingerprint:(.+)$/m)?.[1]?.trim() ?? null;
+}
+
+// Remote candidates held per peer until there's a remote description to apply them to
+const MAX_PENDING_CANDIDATES = 100;
+
+// Loggable summary of a candidate: type and transport, never addresses.
+function describeCandidate(init: RTCIceCandidateInit) {
+  if (!init.candidate) return { endOfCandidates: true, sdpMid: init.sdpMid };
+  const [, , protocol] = init.candidate.split(" ");
+  return {
+    type: init.candidate.match(/ typ (\w+)/)?.[1],
+    protocol: protocol?.toLowerCase(),
+    sdpMid: init.sdpMid,
+    sdpMLineIndex: init.sdpMLineIndex,
+  };
+}
+
+// Resume tokens live in sessionStorage (per tab) so a reload can pick up the session the server
+// is still holding for us; without one the server refuses to give the seat away until it expires.
+const resumeTokenKey = (roomId: string) => `sidechannel_resume_${roomId}`;
+
+function loadResumeToken(roomId: string): string | null {
+  try {
+    return window.sessionStorage.getItem(resumeTokenKey(roomId));
+  } catch {
+    return null;
+  }
+}
+
+function saveResumeToken(roomId: string, token: string | null) {
+  try {
+    if (token === null) window.sessionStorage.removeItem(resumeTokenKey(roomId));
+    else window.sessionStorage.setItem(resumeTokenKey(roomId), token);
+  } catch {
+    // Storage blocked; resuming still works until the tab reloads.
+  }
+}
+
+// Perfect negotiation bookkeeping, per peer connection
+type NegotiationState = {
+  // Polite peers roll back their own offer when offers collide; impolite ones ignore the other's.
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+  // True while any setRemoteDescription is in flight; candidates wait for it
+  applyingRemoteDescription: boolean;
+  // An offer was wanted mid-exchange; sent once signaling is back to stable
+  offerPending: boolean;
+};
+
+// Per peer, across connection rebuilds
+type RecoveryState = {
+  restarts: number;
+  rebuilds: number;
+  timer: ReturnType<typeof setTimeout> | null;
 };
 
-export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
+export type PeerMessageHandler = (peerId: string, message: PeerMessage) => void;
+// Data channels a peer opened beyond the main one (file transfers)
+export type PeerChannelHandler = (peerId: string, channel: RTCDataChannel) => void;
+
+export function useWebRTC({ roomId, signaling, clientId, passphrase, profile }: UseWebRTCProps) {
+  const { socket } = signaling;
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>("");
@@ -57,15 +182,60 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
   // We use a Map internally for O(1) lookups during signaling, but sync to an array for the UI
   const [peersMap, setPeersMap] = useState<Map<string, PeerModel>>(new Map());
   const [permissionState, setPermissionState] = useState<'initial' | 'granted' | 'denied'>('initial');
+  // Latest error frame from the signaling server (a new object per frame, so effects re-run)
+  const [signalingError, setSignalingError] = useState<SignalingError | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [hostClientId, setHostClientId] = useState<string | null>(null);
+  // Set each time the host force-mutes us (a new object per event, like signalingError)
+  const [forceMuted, setForceMuted] = useState<{ byClientId: string } | null>(null);
+  const [roomLocked, setRoomLockedState] = useState(false);
+  // Epoch ms at which the server will close the room; set once the expiry warning arrives
+  const [roomExpiresAt, setRoomExpiresAt] = useState<number | null>(null);
+  // Waiting room
+  const [admissionRequired, setAdmissionRequiredState] = useState(false);
+  const [waitingForAdmission, setWaitingForAdmission] = useState(false);
+  // Host only: clientIds knocking to get in, oldest first
+  const [knocks, setKnocks] = useState<Knock[]>([]);
+  // Peers whose data channel is open, i.e. who can receive peer messages right now
+  const [openChannelPeerIds, setOpenChannelPeerIds] = useState<Set<string>>(new Set());
+  // From `/api/ice-servers`; null until it arrives, and we don't join before then
+  const [iceConfig, setIceConfig] = useState<IceServersConfig | null>(null);
+  const [relayOnly, setRelayOnlyState] = useState(loadRelayOnly);
+  // Latest getStats() summary per connected peer
+  const [peerStats, setPeerStats] = useState<Map<string, PeerStats>>(new Map());
+  // Picked by the host, from room-state and `audio-profile-changed`
+  const [audioProfile, setAudioProfileState] = useState<AudioProfile>(DEFAULT_AUDIO_PROFILE);
+  // Jitter buffer target for incoming audio, in ms; null leaves it to the browser
+  const [latencyTargetMs, setLatencyTargetState] = useState(loadLatencyTarget);
 
   // Refs
   const peerConnections = useRef<Map<string, RTCPeerConnection>>(new Map());
+  const dataChannels = useRef<Map<string, RTCDataChannel>>(new Map());
+  const negotiation = useRef<Map<string, NegotiationState>>(new Map());
+  // Candidates that arrived before their connection or remote description, oldest first
+  const pendingCandidates = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
+  const recovery = useRef<Map<string, RecoveryState>>(new Map());
+  const iceConfigRef = useRef<IceServersConfig | null>(null);
+  const relayOnlyRef = useRef(relayOnly);
+  const audioProfileRef = useRef<AudioProfile>(DEFAULT_AUDIO_PROFILE);
+  const latencyTargetRef = useRef(latencyTargetMs);
+  const statsSamples = useRef<Map<string, StatsSample>>(new Map());
+  const peerMessageHandlers = useRef<Set<PeerMessageHandler>>(new Set());
+  const peerChannelHandlers = useRef<Set<PeerChannelHandler>>(new Set());
   const localStreamRef = useRef<MediaStream | null>(null);
   const lastBroadcastMuteState = useRef<boolean | null>(null);
-  const joinedRef = useRef(false);
+  // The socket our `join` went out on; a new socket (reconnect) needs its own join
+  const joinedSocketRef = useRef<WebSocket | null>(null);
+  // From the server's `session` message; lets the next join resume instead of starting over
+  const resumeTokenRef = useRef<string | null>(null);
 
   // --- 1. Audio Device Management ---
 
+  const setResumeToken = (token: string | null) => {
+    resumeTokenRef.current = token;
+    saveResumeToken(roomId, token);
+  };
+
   const getAudioDevices = async () => {
     try {
       const devices = await navigator.mediaDevices.enumerateDevices();
@@ -142,7 +312,17 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     
     try {
       debug("refreshLocalStream:start", { hasRequestedDeviceId: Boolean(deviceId) });
-      const constraints = { ...MEDIA_CONSTRAINTS };
+      const { voiceProcessing } = AUDIO_PROFILE_PRESETS[audioProfileRef.current];
+      const constraints = {
+        ...MEDIA_CONSTRAINTS,
+        audio: {
+          ...MEDIA_CONSTRAINTS.audio,
+          echoCancellation: voiceProcessing,
+          noiseSuppression: voiceProcessing,
+          autoGainControl: voiceProcessing,
+          googEchoCancellation: voiceProcessing,
+        },
+      };
       if (deviceId) {
         // @ts-expect-error - deviceId is valid in constraints
         constraints.audio = { ...constraints.audio, deviceId: { exact: deviceId } };
@@ -187,6 +367,7 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
 
       // Sync mute state
       const muted = wasMuted ?? false;
+      setIsMuted(muted);
       if (lastBroadcastMuteState.current !== muted) {
         lastBroadcastMuteState.current = muted;
         sendMuteState(muted);
@@ -201,6 +382,9 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
             const sender = pc.getSenders().find((s) => s.track?.kind === "audio");
             if (sender) {
               replacePromises.push(sender.replaceTrack(newTrack).catch(console.warn));
+            } else {
+              // Connected before we had a mic; `onnegotiationneeded` sends the new m-line.
+              pc.addTrack(newTrack, stream);
             }
           }
         });
@@ -269,6 +453,7 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     // Auto-recovery: If no stream, try to start one
     if (!localStreamRef.current) {
         refreshLocalStream();
+        setIsMuted(false);
         return false; // Assume unmuted attempt
     }
 
@@ -276,14 +461,24 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     if (!track) return true;
 
     track.enabled = !track.enabled;
-    const isMuted = !track.enabled;
+    const muted = !track.enabled;
     
-    sendMuteState(isMuted);
-    lastBroadcastMuteState.current = isMuted;
+    sendMuteState(muted);
+    lastBroadcastMuteState.current = muted;
+    setIsMuted(muted);
     
-    return isMuted;
+    return muted;
   }, [socket, clientId]);
 
+  // The host muted us. Stay muted until the user explicitly unmutes via toggleMute.
+  const applyForceMute = () => {
+    const track = localStreamRef.current?.getAudioTracks()[0];
+    if (track) track.enabled = false;
+    lastBroadcastMuteState.current = true;
+    setIsMuted(true);
+    sendMuteState(true);
+  };
+
   // Init Audio
   useEffect(() => {
     refreshLocalStream().catch(console.error);
@@ -312,11 +507,76 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     };
   }, []);
 
+  // ICE servers (and TURN credentials, which expire) from the Worker
+  useEffect(() => {
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      let config: IceServersConfig;
+      try {
+        const response = await fetch("/api/ice-servers", { credentials: "same-origin" });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        config = await response.json();
+      } catch (err) {
+        console.warn("[useWebRTC] Couldn't load ICE servers, falling back to public STUN:", err);
+        config = { iceServers: FALLBACK_ICE_SERVERS, relayAvailable: false, expiresAt: null };
+      }
+      if (cancelled) return;
+      debug("ice:config", {
+        servers: config.iceServers.length,
+        relayAvailable: config.relayAvailable,
+        expiresAt: config.expiresAt,
+      });
+      iceConfigRef.current = config;
+      setIceConfig(config);
+      reconfigurePeers(false);
+
+      if (config.expiresAt) {
+        const lifetime = config.expiresAt - Date.now();
+        refreshTimer = setTimeout(load, Math.max(60_000, lifetime * ICE_CONFIG_REFRESH_FRACTION));
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      clearTimeout(refreshTimer);
+    };
+  }, []);
+
   // --- 2. Signaling & WebRTC ---
 
+  // Queued by the transport while it reconnects
+  const sendSignal = (message: ClientMessage) => {
+    signaling.send(message);
+  };
+
   const sendMuteState = (muted: boolean) => {
-    if (!socket || !clientId || socket.readyState !== WebSocket.OPEN) return;
-    socket.send(JSON.stringify({ type: "mute-state", senderClientId: clientId, muted }));
+    if (!clientId) return;
+    sendSignal({ type: "mute-state", senderClientId: clientId, muted });
+  };
+
+  const rtcConfiguration = (): RTCConfiguration => {
+    const config = iceConfigRef.current;
+    return {
+      iceServers: config?.iceServers ?? FALLBACK_ICE_SERVERS,
+      // Relay-only needs a TURN server; without one it would never connect.
+      iceTransportPolicy: relayOnlyRef.current && config?.relayAvailable ? "relay" : "all",
+    };
+  };
+
+  // New servers/credentials or policy for live connections, which take effect on the next
+  // ICE restart (immediately, when `restart` is set).
+  const reconfigurePeers = (restart: boolean) => {
+    peerConnections.current.forEach((pc, peerId) => {
+      try {
+        pc.setConfiguration(rtcConfiguration());
+        if (restart) pc.restartIce();
+      } catch (err) {
+        console.warn(`[useWebRTC] Couldn't update ICE configuration for ${redactId(peerId)}:`, err);
+      }
+    });
   };
 
   const createPeerConnection = (targetClientId: string) => {
@@ -324,8 +584,28 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
       return peerConnections.current.get(targetClientId)!;
     }
 
-    const pc = new RTCPeerConnection(STUN_SERVERS);
-    debug("pc:create", { targetClientId: redactId(targetClientId) });
+    const pc = new RTCPeerConnection(rtcConfiguration());
+    // Deterministic from the two ids, so both ends agree without talking about it.
+    const polite = Boolean(clientId) && clientId! < targetClientId;
+    const state: NegotiationState = {
+      polite,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      applyingRemoteDescription: false,
+      offerPending: false,
+    };
+    negotiation.current.set(targetClientId, state);
+    debug("pc:create", { targetClientId: redactId(targetClientId), polite });
+
+    // Fires for the initial tracks and data channel below and for anything added later
+    // (tracks, channels, transceivers, `restartIce()`), on whichever side made the change.
+    pc.onnegotiationneeded = () => makeOffer(targetClientId, pc, state);
+    pc.onsignalingstatechange = () => {
+      if (pc.signalingState !== "stable" || !state.offerPending) return;
+      state.offerPending = false;
+      makeOffer(targetClientId, pc, state);
+    };
 
     // Add local tracks
     if (localStreamRef.current) {
@@ -333,21 +613,101 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
         pc.addTrack(track, localStreamRef.current!);
       });
     }
+    applyCodecPreferences(pc);
+
+    // Peer-to-peer messages (chat). Negotiated with a fixed id on both ends, so it's part of
+    // the first offer/answer and there's no `ondatachannel` race.
+    const channel = pc.createDataChannel(PEER_CHANNEL_LABEL, {
+      negotiated: true,
+      id: PEER_CHANNEL_ID,
+    });
+    channel.onopen = () => {
+      debug("dc:open", { targetClientId: redactId(targetClientId) });
+      setOpenChannelPeerIds((prev) => new Set(prev).add(targetClientId));
+    };
+    channel.onclose = () => {
+      debug("dc:close", { targetClientId: redactId(targetClientId) });
+      setOpenChannelPeerIds((prev) => {
+        if (!prev.has(targetClientId)) return prev;
+        const next = new Set(prev);
+        next.delete(targetClientId);
+        return next;
+      });
+    };
+    channel.onmessage = (event) => {
+      const decoded = decodePeerMessage(event.data);
+      if (!decoded.ok) {
+        console.warn("[useWebRTC] Dropping malformed peer message:", decoded.error);
+        return;
+      }
+      peerMessageHandlers.current.forEach((handler) => handler(targetClientId, decoded.message));
+    };
+    dataChannels.current.set(targetClientId, channel);
+    // The negotiated channel never shows up here; anything that does was opened by the peer.
+    pc.ondatachannel = (event) => {
+      debug("dc:incoming", { targetClientId: redactId(targetClientId), label: event.channel.label });
+      if (peerChannelHandlers.current.size === 0) {
+        event.channel.close();
+        return;
+      }
+      peerChannelHandlers.current.forEach((handler) => handler(targetClientId, event.channel));
+    };
 
     // ICE Candidates
     pc.onicecandidate = (event) => {
-      if (event.candidate && socket?.readyState === WebSocket.OPEN) {
-        socket.send(JSON.stringify({
-          type: "ice-candidate",
-          targetClientId,
-          payload: event.candidate,
-          senderClientId: clientId,
-        }));
+      if (!clientId) return;
+      sendSignal({
+        type: "ice-candidate",
+        targetClientId,
+        // A null candidate means gathering is done; pass it on as end-of-candidates.
+        payload: event.candidate
+          ? {
+              candidate: event.candidate.candidate,
+              sdpMid: event.candidate.sdpMid,
+              sdpMLineIndex: event.candidate.sdpMLineIndex,
+              usernameFragment: event.candidate.usernameFragment,
+            }
+          : { candidate: "" },
+        senderClientId: clientId,
+      });
+    };
+
+    // STUN/TURN servers that couldn't be reached; often the reason a peer never connects
+    pc.onicecandidateerror = (event) => {
+      debug("ice:gather-error", {
+        targetClientId: redactId(targetClientId),
+        url: event.url,
+        errorCode: event.errorCode,
+        errorText: event.errorText,
+      });
+    };
+
+    pc.onconnectionstatechange = () => {
+      // A rebuild replaced this connection; its last events don't matter.
+      if (peerConnections.current.get(targetClientId) !== pc) return;
+      debug("pc:state", { targetClientId: redactId(targetClientId), state: pc.connectionState });
+      switch (pc.connectionState) {
+        case "connected": {
+          const entry = recovery.current.get(targetClientId);
+          if (entry?.timer) clearTimeout(entry.timer);
+          recovery.current.delete(targetClientId);
+          setPeerHealth(targetClientId, "connected");
+          break;
+        }
+        case "disconnected":
+          setPeerHealth(targetClientId, "reconnecting");
+          scheduleRecovery(targetClientId, DISCONNECTED_GRACE_MS);
+          break;
+        case "failed":
+          setPeerHealth(targetClientId, "reconnecting");
+          scheduleRecovery(targetClientId, 0);
+          break;
       }
     };
 
     // Remote Track
     pc.ontrack = (event) => {
+      if (event.track.kind === "audio") applyLatencyTarget(event.receiver, latencyTargetRef.current);
       setPeersMap((prev) => {
         const next = new Map(prev);
         const existing = next.get(targetClientId);
@@ -374,6 +734,8 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
           id: targetClientId,
           stream,
           muted: existing?.muted ?? false,
+          profile: existing?.profile,
+          connection: existing?.connection ?? "connecting",
         });
         return next;
       });
@@ -383,13 +745,58 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     return pc;
   };
 
-  const handleUserJoined = async (newClientId: string) => {
+  const sendDescription = (peerId: string, description: RTCSessionDescription | null) => {
+    if (!clientId || !description?.sdp) return;
+    if (description.type === "offer") {
+      sendSignal({
+        type: "offer",
+        targetClientId: peerId,
+        payload: { type: "offer", sdp: description.sdp },
+        senderClientId: clientId,
+      });
+    } else if (description.type === "answer") {
+      sendSignal({
+        type: "answer",
+        targetClientId: peerId,
+        payload: { type: "answer", sdp: description.sdp },
+        senderClientId: clientId,
+      });
+    }
+  };
+
+  // `keepRecovery` is for rebuilds: the attempt counts carry over to the new connection.
+  const closePeerConnection = (peerId: string, { keepRecovery = false } = {}) => {
+    negotiation.current.delete(peerId);
+    pendingCandidates.current.delete(peerId);
+    statsSamples.current.delete(peerId);
+    setPeerStats((prev) => {
+      if (!prev.has(peerId)) return prev;
+      const next = new Map(prev);
+      next.delete(peerId);
+      return next;
+    });
+    if (!keepRecovery) {
+      const entry = recovery.current.get(peerId);
+      if (entry?.timer) clearTimeout(entry.timer);
+      recovery.current.delete(peerId);
+    }
+    dataChannels.current.get(peerId)?.close();
+    dataChannels.current.delete(peerId);
+    peerConnections.current.get(peerId)?.close();
+    peerConnections.current.delete(peerId);
+    setOpenChannelPeerIds((prev) => {
+      if (!prev.has(peerId)) return prev;
+      const next = new Set(prev);
+      next.delete(peerId);
+      return next;
+    });
+  };
+
+  const handleUserJoined = (newClientId: string, newProfile?: Profile) => {
     // Fix: Clean up "ghost" peers if they rejoin without sending a leave event first
     if (peerConnections.current.has(newClientId)) {
       console.warn(`[useWebRTC] Cleaning up ghost peer: ${newClientId}`);
-      const oldPc = peerConnections.current.get(newClientId);
-      oldPc?.close();
-      peerConnections.current.delete(newClientId);
+      closePeerConnection(newClientId);
 
       // Force UI update to remove the dead stream immediately
       setPeersMap((prev) => {
@@ -399,56 +806,281 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
       });
     }
 
-    const pc = createPeerConnection(newClientId);
-    const offer = await pc.createOffer();
-    await pc.setLocalDescription(offer);
+    // Show them straight away; the stream fills in once the connection is up.
+    setPeersMap((prev) =>
+      new Map(prev).set(newClientId, {
+        id: newClientId,
+        stream: prev.get(newClientId)?.stream ?? null,
+        muted: prev.get(newClientId)?.muted ?? false,
+        profile: newProfile,
+        connection: "connecting",
+      })
+    );
 
-    if (socket?.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: "offer",
-        targetClientId: newClientId,
-        payload: offer,
-        senderClientId: clientId,
-      }));
+    // Existing members start the connection; adding our tracks and data channel fires
+    // `onnegotiationneeded`, which sends the offer.
+    createPeerConnection(newClientId);
+  };
+
+  // Our local description, with the room's audio profile written into the Opus parameters.
+  // Explicit createOffer/createAnswer rather than the implicit form, so the SDP can be edited.
+  const setLocalDescription = async (pc: RTCPeerConnection) => {
+    applyCodecPreferences(pc);
+    const description =
+      pc.signalingState === "have-remote-offer" ? await pc.createAnswer() : await pc.createOffer();
+    const preset = AUDIO_PROFILE_PRESETS[audioProfileRef.current];
+    await pc.setLocalDescription({
+      type: description.type,
+      sdp: applyOpusParameters(description.sdp ?? "", preset),
+    });
+    applySenderParameters(pc);
+  };
+
+  const makeOffer = async (peerId: string, pc: RTCPeerConnection, state: NegotiationState) => {
+    // Mid-exchange: an offer now would fail or carry stale settings (e.g. the old audio
+    // profile), so send it once the current exchange settles.
+    if (pc.signalingState !== "stable" || state.makingOffer) {
+      state.offerPending = true;
+      return;
+    }
+    try {
+      state.makingOffer = true;
+      await setLocalDescription(pc);
+      sendDescription(peerId, pc.localDescription);
+    } catch (err) {
+      console.warn("[useWebRTC] Negotiation failed:", err);
+    } finally {
+      state.makingOffer = false;
     }
   };
 
-  const handleOffer = async (senderClientId: string, payload: any) => {
-    const pc = createPeerConnection(senderClientId);
-    await pc.setRemoteDescription(new RTCSessionDescription(payload));
-    const answer = await pc.createAnswer();
-    await pc.setLocalDescription(answer);
+  // Opus first, and RED where the profile wants it. Only affects the next negotiation.
+  const applyCodecPreferences = (pc: RTCPeerConnection) => {
+    const codecs = preferredAudioCodecs(AUDIO_PROFILE_PRESETS[audioProfileRef.current]);
+    if (!codecs) return;
+    for (const transceiver of pc.getTransceivers()) {
+      const kind = transceiver.sender.track?.kind ?? transceiver.receiver.track.kind;
+      if (kind !== "audio" || transceiver.currentDirection === "stopped") continue;
+      try {
+        transceiver.setCodecPreferences(codecs);
+      } catch (err) {
+        debug("codec-preferences:error", { message: (err as Error)?.message });
+      }
+    }
+  };
 
-    if (socket?.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: "answer",
-        targetClientId: senderClientId,
-        payload: answer,
-        senderClientId: clientId,
-      }));
+  // Bitrate cap and packet priority for what we send; takes effect without renegotiating.
+  const applySenderParameters = (pc: RTCPeerConnection) => {
+    const preset = AUDIO_PROFILE_PRESETS[audioProfileRef.current];
+    for (const sender of pc.getSenders()) {
+      if (sender.track?.kind !== "audio") continue;
+      const parameters = sender.getParameters();
+      const encoding = parameters.encodings?.[0];
+      // No encodings until the sender has been negotiated
+      if (!encoding) continue;
+      // RED carries each frame twice
+      encoding.maxBitrate = preset.maxAverageBitrate * (preset.red ? 2 : 1);
+      encoding.priority = preset.priority;
+      encoding.networkPriority = preset.priority;
+      sender.setParameters(parameters).catch((err) => {
+        debug("sender-parameters:error", { message: err?.message });
+      });
     }
   };
 
-  const handleAnswer = async (senderClientId: string, payload: any) => {
-    const pc = peerConnections.current.get(senderClientId);
-    if (pc) {
-      await pc.setRemoteDescription(new RTCSessionDescription(payload));
+  // The host switched profiles mid-call.
+  const handleAudioProfileChanged = (profile: AudioProfile) => {
+    if (profile === audioProfileRef.current) return;
+    audioProfileRef.current = profile;
+    setAudioProfileState(profile);
+    const { voiceProcessing } = AUDIO_PROFILE_PRESETS[profile];
+    localStreamRef.current
+      ?.getAudioTracks()[0]
+      ?.applyConstraints({
+        echoCancellation: voiceProcessing,
+        noiseSuppression: voiceProcessing,
+        autoGainControl: voiceProcessing,
+      })
+      .catch((err) => debug("audio-profile:constraints-error", { message: err?.message }));
+
+    peerConnections.current.forEach((pc, peerId) => {
+      applySenderParameters(pc);
+      // One new offer/answer per connection updates both directions. Leaving it to the
+      // impolite side avoids every pair colliding.
+      const state = negotiation.current.get(peerId);
+      if (state && !state.polite) makeOffer(peerId, pc, state);
+    });
+  };
+
+  // Offers and answers both land here (perfect negotiation). An offer that collides with our
+  // own is dropped by the impolite side; the polite side rolls back implicitly and answers.
+  const handleDescription = async (senderClientId: string, description: RTCSessionDescriptionInit) => {
+    if (description.type === "offer") {
+      const current = peerConnections.current.get(senderClientId)?.remoteDescription;
+      const fingerprint = current && sdpFingerprint(current.sdp);
+      if (fingerprint && fingerprint !== sdpFingerprint(description.sdp)) {
+        // The peer gave up on the old connection and built a new one; follow suit.
+        debug("pc:replaced-by-peer", { peer: redactId(senderClientId) });
+        closePeerConnection(senderClientId, { keepRecovery: true });
+        setPeerHealth(senderClientId, "reconnecting");
+      }
+    }
+
+    const pc =
+      description.type === "offer"
+        ? createPeerConnection(senderClientId)
+        : peerConnections.current.get(senderClientId);
+    const state = negotiation.current.get(senderClientId);
+    if (!pc || !state) return;
+
+    const readyForOffer =
+      !state.makingOffer && (pc.signalingState === "stable" || state.isSettingRemoteAnswerPending);
+    const offerCollision = description.type === "offer" && !readyForOffer;
+    state.ignoreOffer = !state.polite && offerCollision;
+    if (state.ignoreOffer) {
+      debug("sdp:ignore-colliding-offer", { peer: redactId(senderClientId) });
+      return;
+    }
+
+    state.isSettingRemoteAnswerPending = description.type === "answer";
+    state.applyingRemoteDescription = true;
+    try {
+      await pc.setRemoteDescription(description);
+    } finally {
+      state.isSettingRemoteAnswerPending = false;
+      state.applyingRemoteDescription = false;
+    }
+    await flushCandidates(senderClientId, pc);
+    if (description.type === "offer") {
+      await setLocalDescription(pc);
+      sendDescription(senderClientId, pc.localDescription);
+    } else {
+      // Sender encodings only exist once the answer is in.
+      applySenderParameters(pc);
     }
   };
 
-  const handleIceCandidate = async (senderClientId: string, payload: any) => {
+  // Candidates can beat the offer that creates the connection, or land while its remote
+  // description is still being applied; either way addIceCandidate would reject them.
+  const handleIceCandidate = async (senderClientId: string, payload: RTCIceCandidateInit) => {
     const pc = peerConnections.current.get(senderClientId);
-    if (pc) {
-      await pc.addIceCandidate(new RTCIceCandidate(payload));
+    const state = negotiation.current.get(senderClientId);
+    if (!pc || !state || !pc.remoteDescription || state.applyingRemoteDescription) {
+      const queue = pendingCandidates.current.get(senderClientId) ?? [];
+      queue.push(payload);
+      if (queue.length > MAX_PENDING_CANDIDATES) queue.shift();
+      pendingCandidates.current.set(senderClientId, queue);
+      debug("ice:queued", { peer: redactId(senderClientId), queued: queue.length });
+      return;
     }
+    await applyCandidate(senderClientId, pc, payload);
   };
 
-  const handleUserLeft = (leftClientId: string) => {
-    const pc = peerConnections.current.get(leftClientId);
-    if (pc) {
-      pc.close();
-      peerConnections.current.delete(leftClientId);
+  const flushCandidates = async (peerId: string, pc: RTCPeerConnection) => {
+    const queue = pendingCandidates.current.get(peerId);
+    if (!queue?.length) return;
+    pendingCandidates.current.delete(peerId);
+    debug("ice:flush", { peer: redactId(peerId), count: queue.length });
+    for (const candidate of queue) {
+      await applyCandidate(peerId, pc, candidate);
     }
+  };
+
+  // Never throws: one bad candidate shouldn't stop the rest, and the connection may still
+  // come up over the others.
+  const applyCandidate = async (peerId: string, pc: RTCPeerConnection, candidate: RTCIceCandidateInit) => {
+    try {
+      await pc.addIceCandidate(candidate);
+    } catch (err: unknown) {
+      // addIceCandidate rejects with a DOMException (an Error in every current browser)
+      const error = err instanceof Error ? err : null;
+      const details = {
+        peer: redactId(peerId),
+        ...describeCandidate(candidate),
+        signalingState: pc.signalingState,
+        error: error?.name ?? String(err),
+        message: error?.message,
+      };
+      // Expected: candidates for an offer we ignored in a collision, and end-of-candidates
+      // on browsers that don't take it.
+      if (negotiation.current.get(peerId)?.ignoreOffer || !candidate.candidate) {
+        debug("ice:candidate-skipped", details);
+        return;
+      }
+      console.warn("[useWebRTC] Failed to apply ICE candidate:", details);
+    }
+  };
+
+  // --- Connection recovery: ICE restart first, then a fresh connection, then give up ---
+
+  const setPeerHealth = (peerId: string, connection: PeerConnectionHealth) => {
+    setPeersMap((prev) => {
+      const peer = prev.get(peerId);
+      if (!peer || peer.connection === connection) return prev;
+      return new Map(prev).set(peerId, { ...peer, connection });
+    });
+  };
+
+  // Checks on the peer after `delay`, and keeps checking until it connects or we give up.
+  const scheduleRecovery = (peerId: string, delay: number) => {
+    let entry = recovery.current.get(peerId);
+    if (!entry) {
+      entry = { restarts: 0, rebuilds: 0, timer: null };
+      recovery.current.set(peerId, entry);
+    }
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      const pc = peerConnections.current.get(peerId);
+      if (!pc || pc.connectionState === "connected") return;
+      if (recoverPeer(peerId, pc, entry)) scheduleRecovery(peerId, RECOVERY_CHECK_MS);
+    }, delay);
+  };
+
+  // One recovery step. False once we've run out of attempts.
+  const recoverPeer = (peerId: string, pc: RTCPeerConnection, entry: RecoveryState) => {
+    // Nothing will get through; the `online` listener picks this up again.
+    if (!navigator.onLine) return false;
+
+    if (entry.restarts < MAX_ICE_RESTARTS) {
+      entry.restarts += 1;
+      debug("ice:restart", { peer: redactId(peerId), attempt: entry.restarts });
+      // Fires `onnegotiationneeded` with an ICE-restart offer
+      pc.restartIce();
+      return true;
+    }
+    if (entry.rebuilds < MAX_REBUILDS) {
+      entry.rebuilds += 1;
+      entry.restarts = 0;
+      debug("pc:rebuild", { peer: redactId(peerId), attempt: entry.rebuilds });
+      // The peer sees a new DTLS fingerprint in our offer and rebuilds its side too.
+      closePeerConnection(peerId, { keepRecovery: true });
+      createPeerConnection(peerId);
+      return true;
+    }
+
+    console.warn(`[useWebRTC] Giving up on connection to ${redactId(peerId)}`);
+    setPeerHealth(peerId, "failed");
+    return false;
+  };
+
+  // Start over on every broken connection, e.g. after the network comes back. Ones still
+  // negotiating for the first time are left alone.
+  const recoverAllPeers = () => {
+    peerConnections.current.forEach((pc, peerId) => {
+      if (pc.connectionState !== "failed" && pc.connectionState !== "disconnected") return;
+      const entry = recovery.current.get(peerId);
+      if (entry) {
+        entry.restarts = 0;
+        entry.rebuilds = 0;
+      }
+      setPeerHealth(peerId, "reconnecting");
+      scheduleRecovery(peerId, 0);
+    });
+  };
+
+  const handleUserLeft = (leftClientId: string) => {
+    closePeerConnection(leftClientId);
     setPeersMap((prev) => {
       const next = new Map(prev);
       next.delete(leftClientId);
@@ -456,6 +1088,66 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     });
   };
 
+  // Called for every `session` frame, i.e. after the first join and after each reconnect.
+  const handleSessionStart = (resumed: boolean) => {
+    // The server may not have our mute state (fresh session) or may have missed a change.
+    const track = localStreamRef.current?.getAudioTracks()[0];
+    if (track) {
+      sendMuteState(!track.enabled);
+      lastBroadcastMuteState.current = !track.enabled;
+    }
+
+    if (!resumed) {
+      // Everyone saw us leave and join again, and they'll each send a fresh offer.
+      if (peerConnections.current.size > 0) {
+        [...peerConnections.current.keys()].forEach((peerId) => closePeerConnection(peerId));
+        setPeersMap(new Map());
+      }
+      return;
+    }
+
+    // Resumed: the peers don't know we were gone. Connections that broke with our network
+    // need recovering, and only our side knows to start.
+    recoverAllPeers();
+  };
+
+  // The server's roster replaces whatever we pieced together before (matters after a reconnect).
+  const handleRoomState = (state: Extract<ServerMessage, { type: "room-state" }>) => {
+    setHostClientId(state.hostClientId);
+    if (state.hostClientId !== clientId) setKnocks([]);
+    setRoomLockedState(state.locked);
+    setAdmissionRequiredState(state.admissionRequired);
+    handleAudioProfileChanged(state.audioProfile);
+
+    const others = state.participants.filter((p) => p.clientId !== clientId);
+    const roster = new Set(others.map((p) => p.clientId));
+    // Anyone we still have a connection to who isn't listed left while we were away.
+    for (const peerId of [...peerConnections.current.keys()]) {
+      if (!roster.has(peerId)) handleUserLeft(peerId);
+    }
+
+    setPeersMap((prev) => {
+      const next = new Map<string, PeerModel>();
+      for (const participant of others) {
+        next.set(participant.clientId, {
+          id: participant.clientId,
+          stream: prev.get(participant.clientId)?.stream ?? null,
+          muted: participant.muted,
+          profile: participant.profile,
+          connection: prev.get(participant.clientId)?.connection ?? "connecting",
+        });
+      }
+      return next;
+    });
+  };
+
+  const updatePeerProfile = (peerId: string, peerProfile: Profile) => {
+    setPeersMap((prev) => {
+      const peer = prev.get(peerId);
+      return peer ? new Map(prev).set(peerId, { ...peer, profile: peerProfile }) : prev;
+    });
+  };
+
   const updatePeerMuteState = (peerId: string, muted: boolean) => {
     setPeersMap((prev) => {
       const next = new Map(prev);
@@ -471,29 +1163,62 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
   useEffect(() => {
     if (!socket || !clientId) return;
 
-    // Join if we have stream
-    if (localStreamRef.current && !joinedRef.current && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({ type: "join", clientId }));
-      joinedRef.current = true;
-      debug("socket:join");
+    const join = () => {
+      resumeTokenRef.current ??= loadResumeToken(roomId);
+      sendSignal({
+        type: "join",
+        version: PROTOCOL_VERSION,
+        clientId,
+        passphrase,
+        profile,
+        resumeToken: resumeTokenRef.current ?? undefined,
+      });
+      joinedSocketRef.current = socket;
+      debug("socket:join", { resume: Boolean(resumeTokenRef.current) });
+    };
+
+    // Join once we have a stream and ICE servers
+    if (
+      localStreamRef.current &&
+      iceConfigRef.current &&
+      joinedSocketRef.current !== socket &&
+      socket.readyState === WebSocket.OPEN
+    ) {
+      join();
     }
 
     const handleMessage = async (event: MessageEvent) => {
       try {
-        const message = JSON.parse(event.data) as SignalMessage;
-        
+        const decoded = decodeServerMessage(event.data);
+        if (!decoded.ok) {
+          console.warn("[useWebRTC] Dropping malformed signaling frame:", decoded.error);
+          return;
+        }
+        const message = decoded.message;
+
+
         switch (message.type) {
+          case "session":
+            setResumeToken(message.resumeToken);
+            debug("socket:session", { resumed: message.resumed });
+            handleSessionStart(message.resumed);
+            break;
+          case "room-state":
+            handleRoomState(message);
+            break;
           case "user-joined":
-            handleUserJoined(message.clientId);
+            handleUserJoined(message.clientId, message.profile);
             break;
           case "offer":
-            handleOffer(message.senderClientId, message.payload);
-            break;
           case "answer":
-            handleAnswer(message.senderClientId, message.payload);
+            handleDescription(message.senderClientId, message.payload).catch((err) =>
+              console.warn(`[useWebRTC] Failed to apply ${message.type}:`, err)
+            );
             break;
           case "ice-candidate":
-            handleIceCandidate(message.senderClientId, message.payload);
+            handleIceCandidate(message.senderClientId, message.payload).catch((err) =>
+              console.warn("[useWebRTC] Failed to add ICE candidate:", err)
+            );
             break;
           case "user-left":
             handleUserLeft(message.clientId);
@@ -501,6 +1226,60 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
           case "mute-state":
             updatePeerMuteState(message.senderClientId, message.muted);
             break;
+          case "profile-changed":
+            updatePeerProfile(message.clientId, message.profile);
+            break;
+          case "host-changed":
+            setHostClientId(message.hostClientId);
+            // Knocks go to the host only; the server resends them to whoever takes over.
+            if (message.hostClientId !== clientId) setKnocks([]);
+            break;
+          case "force-muted":
+            debug("socket:force-muted", { by: redactId(message.byClientId) });
+            applyForceMute();
+            setForceMuted({ byClientId: message.byClientId });
+            break;
+          case "lock-changed":
+            setRoomLockedState(message.locked);
+            break;
+          case "room-expiring":
+            setRoomExpiresAt(message.expiresAt);
+            break;
+          case "admission-changed":
+            setAdmissionRequiredState(message.required);
+            break;
+          case "audio-profile-changed":
+            handleAudioProfileChanged(message.profile);
+            break;
+          case "admission-pending":
+            setWaitingForAdmission(true);
+            break;
+          case "admitted":
+            setWaitingForAdmission(false);
+            break;
+          case "knock":
+            setKnocks((prev) =>
+              prev.some((k) => k.clientId === message.clientId)
+                ? prev
+                : [...prev, { clientId: message.clientId, profile: message.profile }]
+            );
+            break;
+          case "knock-withdrawn":
+            setKnocks((prev) => prev.filter((k) => k.clientId !== message.clientId));
+            break;
+          case "error":
+            debug("socket:error", { code: message.code, fatal: message.fatal });
+            // The peer we were negotiating with is gone; drop its half-open connection.
+            if (message.code === "target-not-found" && message.targetClientId) {
+              handleUserLeft(message.targetClientId);
+            }
+            // The server is done with this session; a later join starts fresh. Heartbeat timeouts
+            // are the exception: the transport reconnects and the session is still held for us.
+            if (message.fatal && describeSignalingError(message).recovery !== "reconnect") {
+              setResumeToken(null);
+            }
+            setSignalingError(message);
+            break;
         }
       } catch (err) {
         console.error("Signaling error:", err);
@@ -510,10 +1289,8 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     socket.addEventListener("message", handleMessage);
 
     const onOpen = () => {
-       if (localStreamRef.current && !joinedRef.current) {
-          socket.send(JSON.stringify({ type: "join", clientId }));
-          joinedRef.current = true;
-          debug("socket:join:onOpen");
+       if (localStreamRef.current && iceConfigRef.current && joinedSocketRef.current !== socket) {
+          join();
        }
     };
     socket.addEventListener("open", onOpen);
@@ -522,11 +1299,165 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
       socket.removeEventListener("message", handleMessage);
       socket.removeEventListener("open", onOpen);
     };
-  }, [socket, clientId, localStream]);
+  }, [socket, clientId, localStream, iceConfig]);
+
+  // Network changes: connections that broke while offline get another go once we're back,
+  // and a new network path (wifi <-> cellular) means the old candidate pairs are dead.
+  useEffect(() => {
+    const handleOnline = () => {
+      debug("network:online");
+      recoverAllPeers();
+    };
+    const handleOffline = () => {
+      debug("network:offline");
+      peerConnections.current.forEach((_, peerId) => setPeerHealth(peerId, "reconnecting"));
+    };
+    const handleNetworkChange = () => {
+      if (!navigator.onLine) return;
+      debug("network:change");
+      peerConnections.current.forEach((pc) => pc.restartIce());
+    };
+
+    // Network Information API; Chromium only
+    const connection = (navigator as Navigator & { connection?: EventTarget }).connection;
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    connection?.addEventListener?.("change", handleNetworkChange);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      connection?.removeEventListener?.("change", handleNetworkChange);
+    };
+  }, [clientId]);
+
+  // Connection quality, for the signal bars on each card
+  useEffect(() => {
+    const poll = async () => {
+      const next = new Map<string, PeerStats>();
+      await Promise.all(
+        [...peerConnections.current].map(async ([peerId, pc]) => {
+          if (pc.connectionState !== "connected") return;
+          try {
+            const { stats, sample } = summarizeStats(await pc.getStats(), statsSamples.current.get(peerId));
+            statsSamples.current.set(peerId, sample);
+            next.set(peerId, stats);
+          } catch (err) {
+            debug("stats:error", { peer: redactId(peerId), err });
+          }
+        })
+      );
+      setPeerStats((prev) => (prev.size === 0 && next.size === 0 ? prev : next));
+    };
+
+    const timer = setInterval(poll, STATS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // --- 3. Host moderation (the server rejects these from non-hosts) ---
+
+  const kickPeer = (targetClientId: string, reason?: string) => {
+    sendSignal({ type: "kick", targetClientId, reason: reason || undefined });
+  };
+
+  const banPeer = (targetClientId: string, reason?: string) => {
+    sendSignal({ type: "ban", targetClientId, reason: reason || undefined });
+  };
+
+  const forceMutePeer = (targetClientId: string) => {
+    sendSignal({ type: "force-mute", targetClientId });
+  };
+
+  const transferHost = (targetClientId: string) => {
+    sendSignal({ type: "transfer-host", targetClientId });
+  };
+
+  const updateProfile = (next: Profile) => {
+    sendSignal({ type: "set-profile", profile: next });
+  };
+
+  const setRoomLocked = (locked: boolean) => {
+    sendSignal({ type: locked ? "lock" : "unlock" });
+  };
+
+  // Host only; everyone (us included) switches when `audio-profile-changed` comes back.
+  const setAudioProfile = (profile: AudioProfile) => {
+    sendSignal({ type: "set-audio-profile", profile });
+  };
+
+  const setAdmissionRequired = (required: boolean) => {
+    sendSignal({ type: "set-admission", required });
+  };
+
+  const admitPeer = (targetClientId: string) => {
+    sendSignal({ type: "admit", targetClientId });
+    setKnocks((prev) => prev.filter((k) => k.clientId !== targetClientId));
+  };
+
+  const denyPeer = (targetClientId: string) => {
+    sendSignal({ type: "deny", targetClientId });
+    setKnocks((prev) => prev.filter((k) => k.clientId !== targetClientId));
+  };
+
+  // --- 4. Peer-to-peer messages (data channels; never seen by the server) ---
+
+  // False if the peer's channel isn't open; callers decide whether to retry.
+  const sendPeerMessage = (peerId: string, message: PeerMessage) => {
+    const channel = dataChannels.current.get(peerId);
+    if (!channel || channel.readyState !== "open") return false;
+    try {
+      channel.send(JSON.stringify(message));
+      return true;
+    } catch (err) {
+      console.warn("[useWebRTC] Peer message send failed:", err);
+      return false;
+    }
+  };
+
+  // Returns an unsubscribe function, for use as an effect cleanup.
+  const onPeerMessage = useCallback((handler: PeerMessageHandler) => {
+    peerMessageHandlers.current.add(handler);
+    return () => {
+      peerMessageHandlers.current.delete(handler);
+    };
+  }, []);
+
+  const onPeerChannel = useCallback((handler: PeerChannelHandler) => {
+    peerChannelHandlers.current.add(handler);
+    return () => {
+      peerChannelHandlers.current.delete(handler);
+    };
+  }, []);
+
+  // An extra channel to the peer, arriving on their side through `onPeerChannel`. Null if
+  // we have no live connection to them.
+  const openPeerChannel = (peerId: string, label: string) => {
+    const pc = peerConnections.current.get(peerId);
+    if (!pc || pc.connectionState === "closed") return null;
+    return pc.createDataChannel(label, { ordered: true });
+  };
+
+  // Takes effect right away: every connection restarts ICE under the new policy.
+  const setRelayOnly = (value: boolean) => {
+    relayOnlyRef.current = value;
+    setRelayOnlyState(value);
+    saveRelayOnly(value);
+    reconfigurePeers(true);
+  };
+
+  // Applies to every incoming audio track right away, and to any that arrive later.
+  const setLatencyTarget = (targetMs: number | null) => {
+    latencyTargetRef.current = targetMs;
+    setLatencyTargetState(targetMs);
+    saveLatencyTarget(targetMs);
+    peerConnections.current.forEach((pc) => {
+      for (const receiver of pc.getReceivers()) {
+        if (receiver.track.kind === "audio") applyLatencyTarget(receiver, targetMs);
+      }
+    });
+  };
 
   const leave = useCallback(() => {
-    peerConnections.current.forEach((pc) => pc.close());
-    peerConnections.current.clear();
+    [...peerConnections.current.keys()].forEach((peerId) => closePeerConnection(peerId));
     
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach((t) => t.stop());
@@ -534,12 +1465,13 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     }
     setLocalStream(null);
     setPeersMap(new Map());
-    joinedRef.current = false;
+    joinedSocketRef.current = null;
+    setResumeToken(null);
     
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.close();
-    }
-  }, [socket]);
+    // Tell the server this is on purpose, so it doesn't hold the session for a resume.
+    sendSignal({ type: "leave" });
+    signaling.close();
+  }, [signaling]);
 
   return {
     localStream,
@@ -554,5 +1486,38 @@ export function useWebRTC({ roomId, socket, clientId }: UseWebRTCProps) {
     switchOutputDevice,
     permissionState,
     retryMedia,
+    signalingError,
+    isMuted,
+    forceMuted,
+    hostClientId,
+    isHost: Boolean(clientId) && hostClientId === clientId,
+    kickPeer,
+    banPeer,
+    forceMutePeer,
+    transferHost,
+    roomLocked,
+    setRoomLocked,
+    roomExpiresAt,
+    updateProfile,
+    admissionRequired,
+    waitingForAdmission,
+    knocks,
+    setAdmissionRequired,
+    admitPeer,
+    denyPeer,
+    openChannelPeerIds,
+    sendPeerMessage,
+    onPeerMessage,
+    openPeerChannel,
+    onPeerChannel,
+    peerStats,
+    relayAvailable: iceConfig?.relayAvailable ?? false,
+    relayOnly,
+    setRelayOnly,
+    audioProfile,
+    setAudioProfile,
+    latencyTargetMs,
+    setLatencyTarget,
+    latencyControlSupported: latencyControlSupported(),
   };
 }
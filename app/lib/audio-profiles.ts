@@ -0,0 +1,127 @@
+// Opus encoding presets. The room agrees on one (the host picks; see `set-audio-profile`), and
+// every peer connection applies it three ways:
+//   - codec preferences: Opus first, RED (redundant audio) ahead of it where wanted and supported
+//   - the Opus fmtp line in our local SDP, which tells the other side how to encode for us
+//   - RTCRtpSender parameters: bitrate cap and packet priority for what we send
+
+import type { AudioProfile } from "~/types/signaling";
+
+export type AudioProfilePreset = {
+  label: string;
+  description: string;
+  // Packet duration in ms. Smaller is lower latency, larger saves header overhead.
+  ptime: number;
+  maxAverageBitrate: number; // bits/s
+  stereo: boolean;
+  fec: boolean; // in-band forward error correction
+  dtx: boolean; // discontinuous transmission: (almost) nothing is sent during silence
+  red: boolean; // RFC 2198 redundancy, where the browser supports it
+  priority: RTCPriorityType;
+  // Echo cancellation, noise suppression and auto gain. Off for music, which they mangle.
+  voiceProcessing: boolean;
+};
+
+export const AUDIO_PROFILE_PRESETS: Record<AudioProfile, AudioProfilePreset> = {
+  voice: {
+    label: "Voice",
+    description: "Balanced speech quality. The default.",
+    ptime: 20,
+    maxAverageBitrate: 32_000,
+    stereo: false,
+    fec: true,
+    dtx: false,
+    red: false,
+    priority: "medium",
+    voiceProcessing: true,
+  },
+  gaming: {
+    label: "Gaming (low latency)",
+    description: "10 ms packets with loss protection, and silence isn't sent.",
+    ptime: 10,
+    maxAverageBitrate: 32_000,
+    stereo: false,
+    fec: true,
+    dtx: true,
+    red: true,
+    priority: "high",
+    voiceProcessing: true,
+  },
+  music: {
+    label: "Music (high fidelity)",
+    description: "Stereo at a high bitrate, with voice processing off.",
+    ptime: 20,
+    maxAverageBitrate: 128_000,
+    stereo: true,
+    fec: true,
+    dtx: false,
+    red: false,
+    priority: "medium",
+    voiceProcessing: false,
+  },
+  "low-bandwidth": {
+    label: "Low bandwidth",
+    description: "For slow or metered connections. Speech stays intelligible.",
+    ptime: 60,
+    maxAverageBitrate: 12_000,
+    stereo: false,
+    fec: true,
+    dtx: true,
+    red: false,
+    priority: "low",
+    voiceProcessing: true,
+  },
+};
+
+/**
+ * Rewrites the Opus fmtp parameters and ptime in the audio sections of an SDP.
+ * Other codecs and sections pass through untouched.
+ */
+export function applyOpusParameters(sdp: string, preset: AudioProfilePreset): string {
+  const sections = sdp.split(/(?=^m=)/m);
+  return sections
+    .map((section) => {
+      if (!section.startsWith("m=audio")) return section;
+      const payloadType = section.match(/^a=rtpmap:(\d+) opus\/48000/im)?.[1];
+      if (!payloadType) return section;
+
+      const eol = section.includes("\r\n") ? "\r\n" : "\n";
+      const fmtpPattern = new RegExp(`^a=fmtp:${payloadType} (.*)$`, "m");
+      const params = new Map<string, string>();
+      for (const pair of section.match(fmtpPattern)?.[1]?.trim().split(";") ?? []) {
+        const [key, value] = pair.trim().split("=");
+        if (key) params.set(key, value ?? "");
+      }
+      params.set("minptime", "10");
+      params.set("useinbandfec", preset.fec ? "1" : "0");
+      params.set("usedtx", preset.dtx ? "1" : "0");
+      params.set("stereo", preset.stereo ? "1" : "0");
+      params.set("sprop-stereo", preset.stereo ? "1" : "0");
+      params.set("maxaveragebitrate", String(preset.maxAverageBitrate));
+      const fmtp = `a=fmtp:${payloadType} ${[...params].map(([k, v]) => `${k}=${v}`).join(";")}`;
+
+      let next = fmtpPattern.test(section)
+        ? section.replace(fmtpPattern, fmtp)
+        : section.replace(new RegExp(`^(a=rtpmap:${payloadType} .*)$`, "m"), `$1${eol}${fmtp}`);
+      next = next.replace(/^a=ptime:.*(\r?\n)/gm, "");
+      return next.replace(fmtp, `${fmtp}${eol}a=ptime:${preset.ptime}`);
+    })
+    .join("");
+}
+
+/**
+ * Audio codec order for `setCodecPreferences`: Opus first (RED just ahead of it when the
+ * preset wants redundancy, left out otherwise), everything else after. Null if the browser
+ * can't tell us.
+ */
+export function preferredAudioCodecs(preset: AudioProfilePreset): RTCRtpCodec[] | null {
+  if (typeof RTCRtpReceiver === "undefined" || !RTCRtpReceiver.getCapabilities) return null;
+  const codecs = RTCRtpReceiver.getCapabilities("audio")?.codecs;
+  if (!codecs?.length) return null;
+
+  const isRed = (c: RTCRtpCodec) => c.mimeType.toLowerCase() === "audio/red";
+  const isOpus = (c: RTCRtpCodec) => c.mimeType.toLowerCase() === "audio/opus";
+  const red = codecs.filter(isRed);
+  const opus = codecs.filter(isOpus);
+  const rest = codecs.filter((c) => !isRed(c) && !isOpus(c));
+  return preset.red ? [...red, ...opus, ...rest] : [...opus, ...rest];
+}
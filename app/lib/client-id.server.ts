@@ -0,0 +1,42 @@
+// The anonymous per-browser id, kept in an HttpOnly cookie set by the room loader.
+//
+// The cookie is signed with JOIN_TOKEN_SECRET (`<clientId>.<signature>`). Client ids are public
+// to everyone in a room, so an unsigned cookie would let anyone claim someone else's.
+
+import { signValue, verifyValue } from "~/lib/join-token.server";
+
+export const CLIENT_ID_COOKIE = "sidechannel_client_id";
+const CLIENT_ID_MAX_AGE_SECONDS = 6 * 60 * 60;
+
+// Basic validation UUID regex (8-4-4-4-12 hex format)
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Keeps a cookie signature from being reusable as any other signed value.
+const signedPayload = (clientId: string) => `client-id:${clientId}`;
+
+// The client id from the request's cookie, or null if it's missing, malformed or not signed by us.
+export async function readClientId(request: Request, secret: string | undefined): Promise<string | null> {
+  const cookieHeader = request.headers.get("Cookie");
+  if (!cookieHeader) return null;
+  const cookies = Object.fromEntries(cookieHeader.split("; ").map((c) => c.split("=")));
+  const [candidate, signature, ...rest] = (cookies[CLIENT_ID_COOKIE] ?? "").split(".");
+  if (!candidate || !signature || rest.length > 0 || !UUID_PATTERN.test(candidate)) return null;
+  return (await verifyValue(secret, signedPayload(candidate), signature)) ? candidate : null;
+}
+
+export async function clientIdCookie(
+  clientId: string,
+  secret: string | undefined,
+  secure: boolean
+): Promise<string> {
+  const signature = await signValue(secret, signedPayload(clientId));
+  const parts = [
+    `${CLIENT_ID_COOKIE}=${clientId}.${signature}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${CLIENT_ID_MAX_AGE_SECONDS}`,
+  ];
+  if (secure) parts.push("Secure");
+  return parts.join("; ");
+}
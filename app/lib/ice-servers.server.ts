@@ -0,0 +1,78 @@
+// STUN/TURN configuration for clients, with short-lived TURN credentials.
+//
+// Credentials follow the TURN REST API convention coturn implements with
+// `use-auth-secret` / `static-auth-secret`:
+//   username   = "<expiry unix seconds>:<user id>"
+//   credential = base64(HMAC-SHA1(secret, username))
+// so the TURN server can check them without talking to us.
+
+import { FALLBACK_ICE_SERVERS, type IceServersConfig } from "~/lib/ice-servers";
+
+export const DEFAULT_TURN_CREDENTIAL_TTL_SECONDS = 6 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+// Comma-separated URL lists from wrangler vars
+function parseUrls(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+function parseTtlSeconds(value: string | undefined): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TURN_CREDENTIAL_TTL_SECONDS;
+}
+
+export async function createTurnCredentials(
+  secret: string,
+  userId: string,
+  ttlSeconds: number,
+  now = Date.now()
+): Promise<{ username: string; credential: string; expiresAt: number }> {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${userId}`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(username)));
+  let binary = "";
+  for (const byte of signature) binary += String.fromCharCode(byte);
+  return { username, credential: btoa(binary), expiresAt: expiry * 1000 };
+}
+
+/**
+ * ICE servers for one client, from the `STUN_URLS` / `TURN_URLS` /
+ * `TURN_CREDENTIAL_TTL_SECONDS` wrangler vars and the `TURN_SECRET` secret.
+ * TURN is left out unless both the URLs and the secret are set.
+ */
+export async function iceServersForClient(
+  env: {
+    STUN_URLS?: string;
+    TURN_URLS?: string;
+    TURN_CREDENTIAL_TTL_SECONDS?: string;
+    TURN_SECRET?: string;
+  },
+  clientId: string
+): Promise<IceServersConfig> {
+  const stunUrls = parseUrls(env.STUN_URLS);
+  const turnUrls = parseUrls(env.TURN_URLS);
+  const iceServers: RTCIceServer[] = stunUrls.length > 0 ? [{ urls: stunUrls }] : [...FALLBACK_ICE_SERVERS];
+
+  if (turnUrls.length === 0 || !env.TURN_SECRET) {
+    return { iceServers, relayAvailable: false, expiresAt: null };
+  }
+
+  const { username, credential, expiresAt } = await createTurnCredentials(
+    env.TURN_SECRET,
+    clientId,
+    parseTtlSeconds(env.TURN_CREDENTIAL_TTL_SECONDS)
+  );
+  iceServers.push({ urls: turnUrls, username, credential });
+  return { iceServers, relayAvailable: true, expiresAt };
+}
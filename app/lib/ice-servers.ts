@@ -0,0 +1,31 @@
+// ICE server configuration as served by `/api/ice-servers` (shared by the route and the client).
+
+export type IceServersConfig = {
+  iceServers: RTCIceServer[];
+  // A TURN server is configured, so relay-only mode can work
+  relayAvailable: boolean;
+  // Epoch ms when the TURN credentials stop working; null without TURN
+  expiresAt: number | null;
+};
+
+// Used until the config arrives, and if fetching it fails.
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+
+const RELAY_ONLY_STORAGE_KEY = "sidechannel_relay_only";
+
+// Relay-only: send everything through TURN so peers never learn our IP address.
+export function loadRelayOnly(): boolean {
+  try {
+    return window.localStorage.getItem(RELAY_ONLY_STORAGE_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function saveRelayOnly(relayOnly: boolean) {
+  try {
+    window.localStorage.setItem(RELAY_ONLY_STORAGE_KEY, relayOnly ? "1" : "0");
+  } catch {
+    // Storage blocked; the choice still applies for this visit.
+  }
+}
@@ -0,0 +1,116 @@
+// Signed join tokens.
+//
+// The room loader mints a short-lived token binding a clientId to a roomId. The websocket
+// route verifies it before the upgrade reaches the Durable Object, which then trusts the
+// clientId it is handed instead of whatever the socket claims in `join`.
+//
+// Format: base64url(JSON claims) + "." + base64url(HMAC-SHA256(claims segment))
+
+export const JOIN_TOKEN_TTL_SECONDS = 6 * 60 * 60; // matches the client id cookie
+
+// Set by the websocket route on the request it forwards to the Durable Object.
+// Any client-supplied value is overwritten, so the DO can rely on it.
+export const CLIENT_ID_HEADER = "X-SideChannel-Client-Id";
+
+export type JoinTokenClaims = {
+  clientId: string;
+  roomId: string;
+  exp: number; // unix seconds
+};
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function importKey(secret: string | undefined): Promise<CryptoKey> {
+  if (!secret) {
+    throw new Error("JOIN_TOKEN_SECRET is not configured");
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+// base64url HMAC-SHA256 of `value`. Also signs the client id cookie.
+export async function signValue(secret: string | undefined, value: string): Promise<string> {
+  const key = await importKey(secret);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(value));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+// Constant-time check of a `signValue` signature. False for malformed input.
+export async function verifyValue(
+  secret: string | undefined,
+  value: string,
+  signature: string
+): Promise<boolean> {
+  const key = await importKey(secret);
+  try {
+    return await crypto.subtle.verify("HMAC", key, fromBase64Url(signature), encoder.encode(value));
+  } catch {
+    return false;
+  }
+}
+
+export async function createJoinToken(
+  secret: string | undefined,
+  { clientId, roomId }: { clientId: string; roomId: string },
+  ttlSeconds = JOIN_TOKEN_TTL_SECONDS
+): Promise<string> {
+  const claims: JoinTokenClaims = {
+    clientId,
+    roomId,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  return `${body}.${await signValue(secret, body)}`;
+}
+
+/**
+ * Returns the claims if the token is authentic, unexpired and issued for `roomId`; otherwise null.
+ */
+export async function verifyJoinToken(
+  secret: string | undefined,
+  token: string | null,
+  roomId: string
+): Promise<JoinTokenClaims | null> {
+  if (!token) return null;
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length > 0) return null;
+
+  try {
+    if (!(await verifyValue(secret, body, signature))) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as Partial<JoinTokenClaims>;
+    if (
+      typeof claims.clientId !== "string" ||
+      typeof claims.roomId !== "string" ||
+      typeof claims.exp !== "number"
+    ) {
+      return null;
+    }
+    if (claims.roomId !== roomId) return null;
+    if (claims.exp <= Math.floor(Date.now() / 1000)) return null;
+
+    return claims as JoinTokenClaims;
+  } catch {
+    return null;
+  }
+}
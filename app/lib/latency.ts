@@ -0,0 +1,43 @@
+// Receive-side latency: how long the jitter buffer holds incoming audio before playing it.
+// Lower means less mouth-to-ear delay and more glitches on a shaky connection; higher the
+// reverse. Null leaves it to the browser, which adapts to the network.
+
+export const LATENCY_TARGET_MAX_MS = 500;
+export const LATENCY_TARGET_STEP_MS = 10;
+
+const LATENCY_TARGET_STORAGE_KEY = "sidechannel_latency_target";
+
+export function loadLatencyTarget(): number | null {
+  try {
+    const stored = window.localStorage.getItem(LATENCY_TARGET_STORAGE_KEY);
+    if (stored === null) return null;
+    const value = Number(stored);
+    return Number.isFinite(value) && value >= 0 && value <= LATENCY_TARGET_MAX_MS ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLatencyTarget(targetMs: number | null) {
+  try {
+    if (targetMs === null) window.localStorage.removeItem(LATENCY_TARGET_STORAGE_KEY);
+    else window.localStorage.setItem(LATENCY_TARGET_STORAGE_KEY, String(targetMs));
+  } catch {
+    // Storage blocked; the choice still applies for this visit.
+  }
+}
+
+// `jitterBufferTarget` (ms) is the standard; older Chromium only has `playoutDelayHint` (s).
+export function latencyControlSupported() {
+  if (typeof RTCRtpReceiver === "undefined") return false;
+  return "jitterBufferTarget" in RTCRtpReceiver.prototype || "playoutDelayHint" in RTCRtpReceiver.prototype;
+}
+
+export function applyLatencyTarget(receiver: RTCRtpReceiver, targetMs: number | null) {
+  if ("jitterBufferTarget" in receiver) {
+    receiver.jitterBufferTarget = targetMs;
+  } else if ("playoutDelayHint" in receiver) {
+    (receiver as RTCRtpReceiver & { playoutDelayHint: number | null }).playoutDelayHint =
+      targetMs === null ? null : targetMs / 1000;
+  }
+}
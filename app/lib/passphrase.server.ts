@@ -0,0 +1,56 @@
+// Room passphrases are never stored in plain text: the Durable Object keeps a
+// PBKDF2-SHA256 hash with a random per-room salt.
+
+// Workers caps PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export type PassphraseHash = {
+  salt: string; // hex
+  hash: string; // hex
+  iterations: number;
+};
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function derive(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashPassphrase(passphrase: string): Promise<PassphraseHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(passphrase, salt, PBKDF2_ITERATIONS);
+  return { salt: toHex(salt), hash: toHex(hash), iterations: PBKDF2_ITERATIONS };
+}
+
+export async function verifyPassphrase(passphrase: string, stored: PassphraseHash): Promise<boolean> {
+  const expected = fromHex(stored.hash);
+  const actual = await derive(passphrase, fromHex(stored.salt), stored.iterations);
+  if (actual.length !== expected.length) return false;
+
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expected[i];
+  return diff === 0;
+}
@@ -0,0 +1,174 @@
+// Connection quality from `RTCPeerConnection.getStats()`, one summary per poll.
+
+export type CandidateType = "host" | "srflx" | "prflx" | "relay";
+
+export type PeerStats = {
+  rttMs: number | null;
+  // Inbound audio
+  jitterMs: number | null;
+  // Inbound audio packets lost since the previous poll
+  packetLossPercent: number | null;
+  // Average time incoming audio waited in the jitter buffer since the previous poll
+  jitterBufferMs: number | null;
+  // Mouth-to-ear delay for what we hear from this peer (see `estimateDelay`)
+  estimatedDelayMs: number | null;
+  // Selected candidate pair
+  localCandidateType: CandidateType | null;
+  remoteCandidateType: CandidateType | null;
+  codec: string | null;
+  inboundKbps: number | null;
+  outboundKbps: number | null;
+  // 0 (no data yet) to 4 bars
+  quality: 0 | 1 | 2 | 3 | 4;
+};
+
+// Stats dictionaries lib.dom doesn't declare (or declares without fields browsers send)
+type CandidatePairStats = RTCIceCandidatePairStats & {
+  selected?: boolean; // Firefox
+};
+type RemoteInboundRtpStats = RTCReceivedRtpStreamStats & {
+  roundTripTime?: number;
+};
+type CandidateStats = RTCStats & {
+  candidateType?: CandidateType;
+};
+type CodecStats = RTCStats & {
+  mimeType: string;
+  clockRate?: number;
+  channels?: number;
+};
+
+// Cumulative counters kept between polls, to turn totals into rates
+export type StatsSample = {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+  jitterBufferDelay: number; // seconds, summed over emitted samples
+  jitterBufferEmittedCount: number;
+};
+
+// Capture, encoding, decoding and playout on the two devices. Not measurable from here, so a
+// typical figure (one 20 ms frame plus audio device buffers).
+const DEVICE_DELAY_MS = 40;
+
+// One-way network delay (half the round trip) plus our jitter buffer plus the devices.
+function estimateDelay(rttMs: number | null, jitterBufferMs: number | null) {
+  if (rttMs === null) return null;
+  return rttMs / 2 + (jitterBufferMs ?? 0) + DEVICE_DELAY_MS;
+}
+
+// Estimated MOS (E-model, simplified) mapped to bars. Latency hurts one way, so RTT is halved;
+// jitter buffers add roughly twice the jitter.
+function qualityBars(rttMs: number | null, jitterMs: number | null, lossPercent: number | null) {
+  if (rttMs === null && jitterMs === null && lossPercent === null) return 0;
+  const effectiveLatency = (rttMs ?? 0) / 2 + (jitterMs ?? 0) * 2 + 10;
+  let r = 93.2 - (effectiveLatency < 160 ? effectiveLatency / 40 : (effectiveLatency - 120) / 10);
+  r -= (lossPercent ?? 0) * 2.5;
+  r = Math.max(0, Math.min(100, r));
+  const mos = 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r);
+  if (mos >= 4.0) return 4;
+  if (mos >= 3.6) return 3;
+  if (mos >= 3.1) return 2;
+  return 1;
+}
+
+function rate(bytes: number, previousBytes: number | undefined, seconds: number) {
+  if (previousBytes === undefined || seconds <= 0 || bytes < previousBytes) return null;
+  return ((bytes - previousBytes) * 8) / 1000 / seconds;
+}
+
+export function summarizeStats(
+  report: RTCStatsReport,
+  previous: StatsSample | undefined
+): { stats: PeerStats; sample: StatsSample } {
+  let transport: RTCTransportStats | undefined;
+  let inbound: RTCInboundRtpStreamStats | undefined;
+  let outbound: RTCOutboundRtpStreamStats | undefined;
+  let remoteInbound: RemoteInboundRtpStats | undefined;
+  const pairs = new Map<string, CandidatePairStats>();
+  const candidates = new Map<string, CandidateStats>();
+  const codecs = new Map<string, CodecStats>();
+  report.forEach((entry: RTCStats) => {
+    switch (entry.type) {
+      case "transport":
+        transport = entry as RTCTransportStats;
+        break;
+      case "candidate-pair":
+        pairs.set(entry.id, entry as CandidatePairStats);
+        break;
+      case "local-candidate":
+      case "remote-candidate":
+        candidates.set(entry.id, entry as CandidateStats);
+        break;
+      case "codec":
+        codecs.set(entry.id, entry as CodecStats);
+        break;
+      case "inbound-rtp":
+        if ((entry as RTCInboundRtpStreamStats).kind === "audio") inbound = entry as RTCInboundRtpStreamStats;
+        break;
+      case "outbound-rtp":
+        if ((entry as RTCOutboundRtpStreamStats).kind === "audio") outbound = entry as RTCOutboundRtpStreamStats;
+        break;
+      case "remote-inbound-rtp":
+        if ((entry as RemoteInboundRtpStats).kind === "audio") remoteInbound = entry as RemoteInboundRtpStats;
+        break;
+    }
+  });
+
+  // Chromium names the pair on the transport; Firefox flags it with `selected`.
+  const pair =
+    (transport?.selectedCandidatePairId ? pairs.get(transport.selectedCandidatePairId) : undefined) ??
+    [...pairs.values()].find((p) => p.selected) ??
+    [...pairs.values()].find((p) => p.nominated && p.state === "succeeded");
+  const localCandidate = pair ? candidates.get(pair.localCandidateId) : undefined;
+  const remoteCandidate = pair ? candidates.get(pair.remoteCandidateId) : undefined;
+  const codec = inbound?.codecId ? codecs.get(inbound.codecId) : undefined;
+
+  const rttSeconds = pair?.currentRoundTripTime ?? remoteInbound?.roundTripTime;
+  const rttMs = typeof rttSeconds === "number" ? rttSeconds * 1000 : null;
+  const jitterMs = typeof inbound?.jitter === "number" ? inbound.jitter * 1000 : null;
+
+  const sample: StatsSample = {
+    timestamp: typeof inbound?.timestamp === "number" ? inbound.timestamp : Date.now(),
+    bytesReceived: inbound?.bytesReceived ?? 0,
+    bytesSent: outbound?.bytesSent ?? 0,
+    packetsReceived: inbound?.packetsReceived ?? 0,
+    packetsLost: inbound?.packetsLost ?? 0,
+    jitterBufferDelay: inbound?.jitterBufferDelay ?? 0,
+    jitterBufferEmittedCount: inbound?.jitterBufferEmittedCount ?? 0,
+  };
+
+  const seconds = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+  let packetLossPercent: number | null = null;
+  if (previous && inbound) {
+    const lost = Math.max(0, sample.packetsLost - previous.packetsLost);
+    const received = Math.max(0, sample.packetsReceived - previous.packetsReceived);
+    packetLossPercent = lost + received > 0 ? (lost / (lost + received)) * 100 : 0;
+  }
+  let jitterBufferMs: number | null = null;
+  if (previous && inbound) {
+    const emitted = sample.jitterBufferEmittedCount - previous.jitterBufferEmittedCount;
+    const delay = sample.jitterBufferDelay - previous.jitterBufferDelay;
+    // Nothing emitted (silence with DTX, or a reset counter): keep it unknown
+    if (emitted > 0 && delay >= 0) jitterBufferMs = (delay / emitted) * 1000;
+  }
+
+  const stats: PeerStats = {
+    rttMs,
+    jitterMs,
+    packetLossPercent,
+    jitterBufferMs,
+    estimatedDelayMs: estimateDelay(rttMs, jitterBufferMs),
+    localCandidateType: localCandidate?.candidateType ?? null,
+    remoteCandidateType: remoteCandidate?.candidateType ?? null,
+    codec: codec?.mimeType
+      ? `${codec.mimeType.replace(/^audio\//, "")}${codec.clockRate ? ` ${codec.clockRate / 1000} kHz` : ""}${codec.channels === 2 ? " stereo" : ""}`
+      : null,
+    inboundKbps: inbound ? rate(sample.bytesReceived, previous?.bytesReceived, seconds) : null,
+    outboundKbps: outbound ? rate(sample.bytesSent, previous?.bytesSent, seconds) : null,
+    quality: qualityBars(rttMs, jitterMs, packetLossPercent),
+  };
+  return { stats, sample };
+}
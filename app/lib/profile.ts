@@ -0,0 +1,58 @@
+import {
+  ProfileSchema,
+  type AvatarColor,
+  type Profile,
+} from "~/types/signaling";
+
+const STORAGE_KEY = "sidechannel_profile";
+
+// Offered by the profile form; the protocol accepts any single emoji.
+export const AVATAR_EMOJIS = ["🎮", "🎧", "🎸", "🦊", "🐸", "🐙", "👾", "🤖", "🍕", "🔥", "⚡", "🌙"];
+
+// Spelled out in full so Tailwind picks the classes up.
+export const AVATAR_COLOR_CLASSES: Record<AvatarColor, string> = {
+  slate: "bg-slate-500/20 text-slate-500 border-slate-500/30",
+  rose: "bg-rose-500/20 text-rose-500 border-rose-500/30",
+  orange: "bg-orange-500/20 text-orange-500 border-orange-500/30",
+  amber: "bg-amber-500/20 text-amber-500 border-amber-500/30",
+  lime: "bg-lime-500/20 text-lime-600 border-lime-500/30",
+  emerald: "bg-emerald-500/20 text-emerald-500 border-emerald-500/30",
+  sky: "bg-sky-500/20 text-sky-500 border-sky-500/30",
+  violet: "bg-violet-500/20 text-violet-500 border-violet-500/30",
+  fuchsia: "bg-fuchsia-500/20 text-fuchsia-500 border-fuchsia-500/30",
+};
+
+// The profile saved on this device, or null if there isn't a valid one.
+export function loadProfile(): Profile | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = ProfileSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveProfile(profile: Profile) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch {
+    // Storage full or blocked (private mode); the profile still applies for this visit.
+  }
+}
+
+// What to call someone in the UI. Falls back to a short id for people without a profile.
+export function displayName(profile: Profile | undefined, clientId: string): string {
+  return profile?.name ?? `Guest ${clientId.slice(0, 4)}`;
+}
+
+// Avatar text: the chosen emoji, otherwise initials from the name (or id).
+export function avatarLabel(profile: Profile | undefined, clientId: string): string {
+  if (profile?.emoji) return profile.emoji;
+  if (!profile) return clientId.slice(0, 2).toUpperCase();
+  // Array.from so letters outside the BMP aren't split in half
+  const words = profile.name.split(" ").map((word) => Array.from(word));
+  const initials = words.length > 1 ? words[0][0] + words[1][0] : words[0].slice(0, 2).join("");
+  return initials.toUpperCase();
+}
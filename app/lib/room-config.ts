@@ -0,0 +1,95 @@
+import { z } from "zod";
+import type { PassphraseHash } from "~/lib/passphrase.server";
+import { MAX_PASSPHRASE_LENGTH, MAX_ROOM_CAPACITY } from "~/types/signaling";
+
+// Full mesh: every participant encodes one upstream per peer, so keep rooms small.
+export const MIN_ROOM_CAPACITY = 2;
+export const DEFAULT_MAX_PARTICIPANTS = 8;
+export const MIN_PASSPHRASE_LENGTH = 4;
+export const DEFAULT_ROOM_MAX_LIFETIME_MINUTES = 240;
+export const DEFAULT_ROOM_IDLE_TIMEOUT_MINUTES = 30;
+export const DEFAULT_RECONNECT_GRACE_SECONDS = 30;
+// How long before a room's hard limit participants are warned
+const EXPIRY_WARNING_MS = 5 * 60_000;
+
+/**
+ * Deployment-wide participant cap from the `MAX_PARTICIPANTS` wrangler var.
+ * Falls back to the default when unset or not a sensible number, and never exceeds what a
+ * room-state frame can carry.
+ */
+export function deploymentMaxParticipants(value: string | undefined): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  if (!Number.isFinite(parsed) || parsed < MIN_ROOM_CAPACITY) {
+    return DEFAULT_MAX_PARTICIPANTS;
+  }
+  return Math.min(parsed, MAX_ROOM_CAPACITY);
+}
+
+/**
+ * How long a dropped session is held for a resume, from the `RECONNECT_GRACE_SECONDS` wrangler var.
+ * Zero disables holding: a drop is treated like leaving.
+ */
+export function reconnectGraceMs(value: string | undefined): number {
+  const parsed = Number.parseFloat(value ?? "");
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return DEFAULT_RECONNECT_GRACE_SECONDS * 1000;
+  }
+  return parsed * 1000;
+}
+
+function parseMinutes(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export type RoomLifetimeLimits = {
+  maxLifetimeMs: number;
+  idleTimeoutMs: number;
+  warningLeadMs: number;
+};
+
+/**
+ * Lifetime limits from the `ROOM_MAX_LIFETIME_MINUTES` / `ROOM_IDLE_TIMEOUT_MINUTES` wrangler vars.
+ */
+export function roomLifetimeLimits(env: {
+  ROOM_MAX_LIFETIME_MINUTES?: string;
+  ROOM_IDLE_TIMEOUT_MINUTES?: string;
+}): RoomLifetimeLimits {
+  const maxLifetimeMs =
+    parseMinutes(env.ROOM_MAX_LIFETIME_MINUTES, DEFAULT_ROOM_MAX_LIFETIME_MINUTES) * 60_000;
+  return {
+    maxLifetimeMs,
+    idleTimeoutMs: parseMinutes(env.ROOM_IDLE_TIMEOUT_MINUTES, DEFAULT_ROOM_IDLE_TIMEOUT_MINUTES) * 60_000,
+    // Short-lived rooms (mostly local testing) get a proportionally shorter warning
+    warningLeadMs: Math.min(EXPIRY_WARNING_MS, maxLifetimeMs / 2),
+  };
+}
+
+// Options chosen by the creator in the `_index` action. Rooms can only lower
+// the deployment cap, never raise it.
+export const RoomOptionsSchema = z.object({
+  maxParticipants: z.number().int().min(MIN_ROOM_CAPACITY).optional(),
+  passphrase: z.string().min(MIN_PASSPHRASE_LENGTH).max(MAX_PASSPHRASE_LENGTH).optional(),
+});
+
+export type RoomOptions = z.infer<typeof RoomOptionsSchema>;
+
+// What the Durable Object persists for a configured room. The passphrase is only kept as a salted hash.
+export type RoomConfig = Omit<RoomOptions, "passphrase"> & {
+  passphrase?: PassphraseHash;
+  createdAt: number;
+};
+
+// Public view of a room, safe to hand to anyone holding the link
+export type RoomInfo = {
+  passphraseRequired: boolean;
+  // The room outlived its limits; the link is dead
+  expired: boolean;
+};
+
+export function effectiveMaxParticipants(
+  deploymentMax: number,
+  config: Pick<RoomOptions, "maxParticipants"> | undefined
+): number {
+  return Math.min(deploymentMax, config?.maxParticipants ?? deploymentMax);
+}
@@ -0,0 +1,133 @@
+import type { SignalingError, SignalingErrorCode } from "~/types/signaling";
+
+// "reconnect": the signaling transport recovers on its own, so there's nothing to show
+export type SignalingErrorRecovery = "reload" | "home" | "reconnect" | "none";
+
+export type SignalingErrorDescription = {
+  title: string;
+  description: string;
+  // Short label for the header status pill
+  status: string;
+  recovery: SignalingErrorRecovery;
+};
+
+const DESCRIPTIONS: Record<SignalingErrorCode, SignalingErrorDescription> = {
+  "invalid-message": {
+    title: "Signaling hiccup",
+    description: "The server rejected a message from this tab. Reloading usually fixes it.",
+    status: "Out of sync",
+    recovery: "reload",
+  },
+  "unsupported-protocol-version": {
+    title: "SideChannel was updated",
+    description: "Reload to get the latest version before joining.",
+    status: "Update required",
+    recovery: "reload",
+  },
+  "not-joined": {
+    title: "Not in the room yet",
+    description: "Your connection hasn't finished joining. Reload to try again.",
+    status: "Not joined",
+    recovery: "reload",
+  },
+  "client-id-mismatch": {
+    title: "Session mismatch",
+    description: "This tab's session doesn't match its connection. Reload to get a fresh one.",
+    status: "Session error",
+    recovery: "reload",
+  },
+  "client-id-in-use": {
+    title: "Already in this room",
+    description:
+      "This room is open in another tab or window, or your last connection is still being held. Close the other tab or wait a few seconds, then reconnect here.",
+    status: "Open elsewhere",
+    recovery: "reload",
+  },
+  "target-not-found": {
+    title: "Peer unavailable",
+    description: "Someone left before the connection finished.",
+    status: "Connected",
+    recovery: "none",
+  },
+  "rate-limited": {
+    title: "Slow down",
+    description: "Too many signaling messages. Some were dropped.",
+    status: "Rate limited",
+    recovery: "none",
+  },
+  "room-full": {
+    title: "Room is full",
+    description: "This room has reached its participant limit.",
+    status: "Room full",
+    recovery: "home",
+  },
+  "passphrase-required": {
+    title: "Passphrase required",
+    description: "This room is protected. Enter its passphrase to join.",
+    status: "Locked",
+    recovery: "reload",
+  },
+  "passphrase-invalid": {
+    title: "Wrong passphrase",
+    description: "The room rejected that passphrase.",
+    status: "Locked",
+    recovery: "reload",
+  },
+  "passphrase-throttled": {
+    title: "Too many attempts",
+    description: "Too many wrong passphrases for this room.",
+    status: "Locked",
+    recovery: "reload",
+  },
+  "not-host": {
+    title: "Host only",
+    description: "Only the room host can do that.",
+    status: "Connected",
+    recovery: "none",
+  },
+  kicked: {
+    title: "You were removed",
+    description: "The host removed you from this room.",
+    status: "Removed",
+    recovery: "home",
+  },
+  banned: {
+    title: "You can't join this room",
+    description: "The host has banned you from this room.",
+    status: "Banned",
+    recovery: "home",
+  },
+  "admission-denied": {
+    title: "Not let in",
+    description: "The host declined your request to join.",
+    status: "Denied",
+    recovery: "home",
+  },
+  "room-locked": {
+    title: "Room is locked",
+    description: "The host locked this room, so nobody new can join.",
+    status: "Locked",
+    recovery: "home",
+  },
+  "heartbeat-timeout": {
+    title: "Connection timed out",
+    description: "The server stopped hearing from this device. Reconnecting…",
+    status: "Timed out",
+    recovery: "reconnect",
+  },
+  "room-expired": {
+    title: "Room expired",
+    description: "This room reached its time limit and has been closed.",
+    status: "Expired",
+    recovery: "home",
+  },
+};
+
+export function describeSignalingError(error: SignalingError): SignalingErrorDescription {
+  const base = DESCRIPTIONS[error.code];
+  if ((error.code === "rate-limited" || error.code === "passphrase-throttled") && error.retryAfterMs !== undefined) {
+    const seconds = Math.max(1, Math.ceil(error.retryAfterMs / 1000));
+    return { ...base, description: `${base.description} Try again in ${seconds}s.` };
+  }
+  return base;
+}
@@ -4,4 +4,5 @@ export default [
     index("routes/_index.tsx"), 
     route("r/:roomId", "routes/r.$roomId.tsx"),
     route("api/room/:roomId/websocket", "routes/api.room.$roomId.websocket.ts"),
+    route("api/ice-servers", "routes/api.ice-servers.ts"),
 ] satisfies RouteConfig;
@@ -4,8 +4,22 @@ import { useEffect } from "react";
 import type { Route } from "./+types/_index";
 import { Button } from "~/components/ui/button";
 import { ModeToggle } from "~/components/mode-toggle";
-import { ArrowRight, AudioWaveform } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { ArrowRight, AudioWaveform, Lock, Users } from "lucide-react";
 import { useInstallPrompt } from "~/hooks/useInstallPrompt";
+import {
+  MIN_PASSPHRASE_LENGTH,
+  MIN_ROOM_CAPACITY,
+  RoomOptionsSchema,
+  deploymentMaxParticipants,
+} from "~/lib/room-config";
+import { MAX_PASSPHRASE_LENGTH } from "~/types/signaling";
 
 export const meta: Route.MetaFunction = () => {
   return [
@@ -14,14 +28,49 @@ export const meta: Route.MetaFunction = () => {
   ];
 };
 
-export async function action({ request }: Route.ActionArgs) {
+export async function loader({ context }: Route.LoaderArgs) {
+  return {
+    maxParticipants: deploymentMaxParticipants(context.cloudflare.env.MAX_PARTICIPANTS),
+  };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
   const formData = await request.formData();
-  // ... (rest of action remains same)
+  const env = context.cloudflare.env;
+  const deploymentMax = deploymentMaxParticipants(env.MAX_PARTICIPANTS);
+
+  const rawMax = formData.get("maxParticipants");
+  const rawPassphrase = formData.get("passphrase");
+  const parsed = RoomOptionsSchema.safeParse({
+    maxParticipants: rawMax && rawMax !== "default" ? Number(rawMax) : undefined,
+    passphrase: typeof rawPassphrase === "string" && rawPassphrase !== "" ? rawPassphrase : undefined,
+  });
+  if (!parsed.success) {
+    throw new Response("Invalid room options", { status: 400 });
+  }
+
   const roomId = crypto.randomUUID();
+  const options = parsed.data;
+
+  // Only rooms with a passphrase or a lower cap need configuring; everything else uses deployment defaults.
+  const lowersCap = options.maxParticipants !== undefined && options.maxParticipants < deploymentMax;
+  if (lowersCap || options.passphrase) {
+    const stub = env.SIGNALING.get(env.SIGNALING.idFromName(roomId));
+    await stub.configure({
+      ...options,
+      maxParticipants: lowersCap ? options.maxParticipants : undefined,
+    });
+  }
+
   return redirect(`/r/${roomId}`);
 }
 
-export default function Home() {
+export default function Home({ loaderData }: Route.ComponentProps) {
+  const { maxParticipants } = loaderData;
+  const capacityOptions = Array.from(
+    { length: maxParticipants - MIN_ROOM_CAPACITY },
+    (_, i) => MIN_ROOM_CAPACITY + i
+  );
   const { installEvent, isStandalone, promptToInstall } = useInstallPrompt();
   // Use sessionStorage to ensure we don't spam the user on every refresh within the same tab session,
   // but allow it to reappear if they close and reopen the tab/browser.
@@ -80,7 +129,7 @@ export default function Home() {
           </p>
         </div>
         
-        <Form method="post" viewTransition>
+        <Form method="post" viewTransition className="flex flex-col items-center gap-4">
           <Button 
             size="lg" 
             type="submit" 
@@ -89,6 +138,37 @@ export default function Home() {
             Create Room
             <ArrowRight className="ml-2 h-5 w-5 transition-transform group-hover:translate-x-1" />
           </Button>
+
+          {/* Room Options */}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Users className="h-4 w-4" />
+            <span>Room size</span>
+            <Select name="maxParticipants" defaultValue="default">
+              <SelectTrigger size="sm" className="w-auto bg-background/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border text-foreground">
+                <SelectItem value="default">Up to {maxParticipants}</SelectItem>
+                {capacityOptions.map((n) => (
+                  <SelectItem key={n} value={String(n)}>
+                    {n} people
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Lock className="h-4 w-4" />
+            <input
+              type="password"
+              name="passphrase"
+              autoComplete="new-password"
+              placeholder="Passphrase (optional)"
+              minLength={MIN_PASSPHRASE_LENGTH}
+              maxLength={MAX_PASSPHRASE_LENGTH}
+              className="h-8 w-56 rounded-md border border-border bg-background/50 px-3 text-sm text-foreground placeholder:text-muted-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+            />
+          </div>
         </Form>
       </div>
       
@@ -0,0 +1,18 @@
+import { type LoaderFunctionArgs } from "react-router";
+import { readClientId } from "~/lib/client-id.server";
+import { iceServersForClient } from "~/lib/ice-servers.server";
+
+// TURN credentials are minted per client, only for browsers holding a client id cookie we
+// signed (set by the room loader). A cookie that merely looks like an id gets nothing.
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const env = context.cloudflare.env;
+  const clientId = await readClientId(request, env.JOIN_TOKEN_SECRET);
+  if (!clientId) {
+    return new Response("Valid client ID cookie required", { status: 401 });
+  }
+
+  const config = await iceServersForClient(env, clientId);
+  return Response.json(config, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
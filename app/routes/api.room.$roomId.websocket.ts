@@ -1,4 +1,5 @@
 import { type LoaderFunctionArgs } from "react-router";
+import { CLIENT_ID_HEADER, verifyJoinToken } from "~/lib/join-token.server";
 
 export async function loader({ request, params, context }: LoaderFunctionArgs) {
   const roomId = params.roomId;
@@ -12,8 +13,19 @@ export async function loader({ request, params, context }: LoaderFunctionArgs) {
     return new Response("Expected Upgrade: websocket", { status: 426 });
   }
 
-  const id = context.cloudflare.env.SIGNALING.idFromName(roomId);
-  const stub = context.cloudflare.env.SIGNALING.get(id);
+  const env = context.cloudflare.env;
+  const token = new URL(request.url).searchParams.get("token");
+  const claims = await verifyJoinToken(env.JOIN_TOKEN_SECRET, token, roomId);
+  if (!claims) {
+    return new Response("Invalid or expired join token", { status: 401 });
+  }
+
+  // Hand the verified identity to the Durable Object; overwrite anything the client sent.
+  const headers = new Headers(request.headers);
+  headers.set(CLIENT_ID_HEADER, claims.clientId);
+
+  const id = env.SIGNALING.idFromName(roomId);
+  const stub = env.SIGNALING.get(id);
 
-  return stub.fetch(request);
+  return stub.fetch(new Request(request, { headers }));
 }
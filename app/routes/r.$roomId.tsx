@@ -1,6 +1,14 @@
-import { type LoaderFunctionArgs, useNavigate } from "react-router";
-import { useEffect, useState, useRef } from "react";
-import { useWebRTC } from "~/hooks/useWebRTC";
+import {
+  type LoaderFunctionArgs,
+  type ShouldRevalidateFunctionArgs,
+  useFetcher,
+  useNavigate,
+} from "react-router";
+import { useEffect, useState, useRef, type DragEvent, type ReactNode } from "react";
+import { useWebRTC, type PeerConnectionHealth } from "~/hooks/useWebRTC";
+import { useSignalingSocket, type SignalingStatus } from "~/hooks/useSignalingSocket";
+import { useChat } from "~/hooks/useChat";
+import { useFileTransfer } from "~/hooks/useFileTransfer";
 import { useAudioVisualizer } from "~/hooks/useAudioVisualizer";
 import { Button } from "~/components/ui/button";
 import { ModeToggle } from "~/components/mode-toggle";
@@ -8,6 +16,7 @@ import { Card } from "~/components/ui/card";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
@@ -37,62 +46,116 @@ import {
   PhoneOff,
   Users,
   Loader2,
-  Play
+  Play,
+  Lock,
+  Crown,
+  UserX,
+  Ban,
+  DoorOpen,
+  DoorClosed,
+  Hourglass,
+  LockOpen,
+  Timer,
+  TimerOff,
+  UserRound,
+  MessageSquare,
+  Paperclip,
+  Upload,
+  RefreshCw,
+  WifiOff
 } from "lucide-react";
 import { toast } from "sonner";
 import type { Route } from "./+types/r.$roomId";
+import { createJoinToken } from "~/lib/join-token.server";
+import { clientIdCookie, readClientId } from "~/lib/client-id.server";
+import {
+  describeSignalingError,
+  type SignalingErrorRecovery,
+} from "~/lib/signaling-errors";
+import { MAX_FILE_SIZE } from "~/types/peer-messages";
+import {
+  AUDIO_PROFILES,
+  MAX_PASSPHRASE_LENGTH,
+  type AudioProfile,
+  type Profile,
+  type SignalingError,
+  type SignalingErrorCode,
+} from "~/types/signaling";
+import type { PassphraseCheck } from "~/durable-objects/SignalingServer";
+import { RoomNotice } from "~/components/room-notice";
+import { ProfileForm } from "~/components/profile-form";
+import { ChatPanel } from "~/components/chat-panel";
+import { FileTransferList } from "~/components/file-transfer-list";
+import { ConnectionQuality } from "~/components/connection-quality";
+import type { PeerStats } from "~/lib/peer-stats";
+import { AUDIO_PROFILE_PRESETS } from "~/lib/audio-profiles";
+import { LATENCY_TARGET_MAX_MS, LATENCY_TARGET_STEP_MS } from "~/lib/latency";
+import {
+  AVATAR_COLOR_CLASSES,
+  avatarLabel,
+  displayName,
+  loadProfile,
+  saveProfile,
+} from "~/lib/profile";
+import { PeerHostControls } from "~/components/peer-host-controls";
 
 export async function loader({ request, params, context }: LoaderFunctionArgs) {
   const url = new URL(request.url);
   const roomId = params.roomId;
-  
-  // Handle Client ID cookie
-  const cookieHeader = request.headers.get("Cookie");
-  let clientId: string | null = null;
-  
-  // Basic validation UUID regex (8-4-4-4-12 hex format)
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
-  if (cookieHeader) {
-    const cookies = Object.fromEntries(
-      cookieHeader.split("; ").map((c) => c.split("="))
-    );
-    const candidate = cookies["sidechannel_client_id"];
-    // Validate candidate before accepting
-    if (candidate && uuidRegex.test(candidate)) {
-      clientId = candidate;
-    }
+  if (!roomId) {
+    throw new Response("Room ID required", { status: 400 });
   }
 
+  // Handle Client ID cookie (a missing, old unsigned or tampered one gets a fresh id)
+  const secret = context.cloudflare.env.JOIN_TOKEN_SECRET;
+  let clientId = await readClientId(request, secret);
   const headers = new Headers();
   if (!clientId) {
     clientId = crypto.randomUUID();
-    const cookieParts = [
-      `sidechannel_client_id=${clientId}`,
-      "Path=/",
-      "HttpOnly",
-      "SameSite=Lax",
-      "Max-Age=21600", // 6 hours
-    ];
-    if (url.protocol === "https:") {
-      cookieParts.push("Secure");
-    }
-    headers.append("Set-Cookie", cookieParts.join("; "));
+    headers.append("Set-Cookie", await clientIdCookie(clientId, secret, url.protocol === "https:"));
   }
 
   // Construct WebSocket URL
   const isLocal = ["localhost", "127.0.0.1"].includes(url.hostname);
   const protocol = url.protocol === "https:" || !isLocal ? "wss:" : "ws:";
   const host = url.host;
-  const websocketUrl = `${protocol}//${host}/api/room/${roomId}/websocket`;
+  // The signaling server only accepts sockets presenting a token for this clientId + room
+  const token = await createJoinToken(secret, {
+    clientId,
+    roomId,
+  });
+  const websocketUrl = `${protocol}//${host}/api/room/${roomId}/websocket?token=${encodeURIComponent(token)}`;
+
+  const signaling = context.cloudflare.env.SIGNALING;
+  const { passphraseRequired, expired } = await signaling.get(signaling.idFromName(roomId)).getRoomInfo();
 
   return Response.json({ 
     roomId, 
     clientId,
-    websocketUrl 
+    websocketUrl,
+    passphraseRequired,
+    expired,
   }, { headers });
 }
 
+// Passphrase pre-check for the prompt. The signaling server verifies it again on `join`, and
+// throttles guesses from both.
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const passphrase = formData.get("passphrase");
+  if (typeof passphrase !== "string" || !passphrase || passphrase.length > MAX_PASSPHRASE_LENGTH) {
+    return { ok: false } as PassphraseCheck;
+  }
+
+  const env = context.cloudflare.env;
+  const guesser = {
+    clientId: await readClientId(request, env.JOIN_TOKEN_SECRET),
+    ip: request.headers.get("CF-Connecting-IP"),
+  };
+  const signaling = env.SIGNALING;
+  return signaling.get(signaling.idFromName(params.roomId)).checkPassphrase(passphrase, guesser);
+}
+
 function AudioPlayer({
   stream,
   outputDeviceId,
@@ -202,6 +265,7 @@ function AudioPlayer({
 
 function PeerCard({ 
   id, 
+  profile,
   muted, 
   stream, 
   isLocal = false, 
@@ -209,9 +273,15 @@ function PeerCard({
   outputDeviceId,
   permissionError,
   onRetry,
-  isRequesting
+  isRequesting,
+  isHost = false,
+  connection,
+  stats,
+  hostControls,
+  onDropFiles
 }: { 
   id: string; 
+  profile?: Profile;
   muted?: boolean; 
   stream?: MediaStream; 
   isLocal?: boolean; 
@@ -220,15 +290,66 @@ function PeerCard({
   permissionError?: boolean;
   onRetry?: () => void;
   isRequesting?: boolean;
+  // This participant holds the host role
+  isHost?: boolean;
+  // Remote peers only: the state of our connection to them
+  connection?: PeerConnectionHealth;
+  // Remote peers only: latest quality sample, once connected
+  stats?: PeerStats;
+  // Moderation controls, rendered when the local user is host
+  hostControls?: ReactNode;
+  // Files dropped on this card go to this peer only
+  onDropFiles?: (files: File[]) => void;
 }) {
   const visualizerRef = useRef<HTMLDivElement>(null);
   useAudioVisualizer(stream, visualizerRef);
+  const name = displayName(profile, id);
+  const [dropTarget, setDropTarget] = useState(false);
+  const unhealthy = connection === "reconnecting" || connection === "failed";
+  // In the room, but the peer connection hasn't delivered audio yet
+  const connecting = connection === "connecting" || (!isLocal && !stream && !unhealthy);
+
+  const dropHandlers = onDropFiles ? {
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes("Files")) return;
+      e.preventDefault();
+      setDropTarget(true);
+    },
+    onDragLeave: () => setDropTarget(false),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDropTarget(false);
+      if (e.dataTransfer.files.length > 0) onDropFiles(Array.from(e.dataTransfer.files));
+    },
+  } : {};
 
   return (
-    <Card className={`bg-card border-border relative overflow-hidden h-48 md:h-56 flex flex-col items-center justify-center transition-all hover:border-primary/50 animate-in fade-in zoom-in-95 duration-500 ${permissionError ? 'border-destructive/50' : ''}`}>
+    <Card {...dropHandlers} className={`bg-card border-border relative overflow-hidden h-48 md:h-56 flex flex-col items-center justify-center transition-all hover:border-primary/50 animate-in fade-in zoom-in-95 duration-500 ${permissionError ? 'border-destructive/50' : ''} ${dropTarget ? 'border-primary ring-2 ring-primary/40' : ''}`}>
+      {dropTarget && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center gap-2 bg-background/80 text-sm font-medium text-primary backdrop-blur-sm pointer-events-none">
+          <Upload className="w-6 h-6" />
+          Send to {name}
+        </div>
+      )}
+      {/* Host Controls */}
+      {hostControls && <div className="absolute top-3 left-3 z-30">{hostControls}</div>}
+
       {/* Status Overlay */}
-      <div className="absolute top-3 right-3 flex gap-2">
-        {muted || !stream ? (
+      <div className="absolute top-3 right-3 flex items-center gap-2">
+        {stats && connection === "connected" && <ConnectionQuality stats={stats} />}
+        {connecting ? (
+          <div className="bg-muted/50 text-muted-foreground rounded-full p-1.5 backdrop-blur-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+          </div>
+        ) : connection === "reconnecting" ? (
+          <div className="bg-amber-500/20 text-amber-500 rounded-full p-1.5 backdrop-blur-sm">
+            <RefreshCw className="w-4 h-4 animate-spin" />
+          </div>
+        ) : connection === "failed" ? (
+          <div className="bg-destructive/20 text-destructive rounded-full p-1.5 backdrop-blur-sm">
+            <WifiOff className="w-4 h-4" />
+          </div>
+        ) : muted || !stream ? (
           <div className={`rounded-full p-1.5 backdrop-blur-sm ${!stream && !permissionError ? 'bg-muted/50 text-muted-foreground' : 'bg-destructive/20 text-destructive'}`}>
             <MicOff className="w-4 h-4" />
           </div>
@@ -248,21 +369,28 @@ function PeerCard({
             className="absolute -inset-1 rounded-full border-2 border-green-500/40 bg-green-500/10 z-0 opacity-40 shadow-[0_0_15px_rgba(34,197,94,0.2)]"
           />
         )}
-        <div className={`relative z-10 w-20 h-20 md:w-24 md:h-24 rounded-full flex items-center justify-center text-2xl md:text-3xl font-bold shadow-xl ${isLocal ? 'bg-primary/20 text-primary border-2 border-primary/30' : 'bg-muted text-muted-foreground border-2 border-border'}`}>
-          {id.slice(0, 2).toUpperCase()}
+        <div className={`relative z-10 w-20 h-20 md:w-24 md:h-24 rounded-full flex items-center justify-center text-2xl md:text-3xl font-bold shadow-xl transition-opacity border-2 ${profile?.color ? AVATAR_COLOR_CLASSES[profile.color] : isLocal ? 'bg-primary/20 text-primary border-primary/30' : 'bg-muted text-muted-foreground border-border'} ${connecting || unhealthy ? 'opacity-50' : ''}`}>
+          {avatarLabel(profile, id)}
         </div>
       </div>
 
       {/* User Info */}
       <div className="text-center px-4 w-full">
         <h3 className="font-semibold text-card-foreground truncate w-full">
-          {isLocal ? "You" : `Peer ${id.slice(0, 4)}`}
+          {isHost && <Crown className="inline-block w-4 h-4 mr-1 -mt-0.5 text-amber-500" aria-label="Host" />}
+          {isLocal ? (profile ? `${name} (you)` : "You") : name}
         </h3>
         {permissionError ? (
              <Button variant="destructive" size="sm" className="mt-2 h-7 text-xs" onClick={onRetry} disabled={isRequesting}>
                 {isRequesting ? <Loader2 className="w-3 h-3 animate-spin mr-1" /> : null}
                 {isRequesting ? "Waiting..." : "Enable Mic"}
              </Button>
+        ) : connecting ? (
+          <p className="text-xs text-muted-foreground mt-1">Connecting…</p>
+        ) : connection === "reconnecting" ? (
+          <p className="text-xs text-amber-500 mt-1">Reconnecting…</p>
+        ) : connection === "failed" ? (
+          <p className="text-xs text-destructive mt-1">Connection failed</p>
         ) : micLabel ? (
           <p className="text-xs text-neutral-500 mt-1 truncate max-w-full">
             {micLabel}
@@ -271,7 +399,7 @@ function PeerCard({
       </div>
 
       {/* Viz/Pulse Effect (Simple CSS animation for active mic could go here) */}
-      {!muted && !permissionError && (
+      {!muted && !permissionError && !connecting && !unhealthy && (
         <div className="absolute inset-x-0 bottom-0 h-1 bg-green-500/50 shadow-[0_0_10px_rgba(34,197,94,0.5)]" />
       )}
 
@@ -281,46 +409,241 @@ function PeerCard({
   );
 }
 
+// Submissions (the passphrase check) don't change anything the loader returns, and re-running it
+// would mint a fresh join token and reconnect the socket.
+export function shouldRevalidate({ formMethod, defaultShouldRevalidate }: ShouldRevalidateFunctionArgs) {
+  if (formMethod) return false;
+  return defaultShouldRevalidate;
+}
+
+function PassphrasePrompt({
+  rejected,
+  onUnlock,
+}: {
+  // The server turned down a passphrase that passed the pre-check (e.g. it was changed), or
+  // made us wait before guessing again
+  rejected: { retryAfterMs?: number } | null;
+  onUnlock: (passphrase: string) => void;
+}) {
+  const fetcher = useFetcher<typeof action>();
+  const [value, setValue] = useState("");
+  const submittedRef = useRef("");
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.ok) {
+      onUnlock(submittedRef.current);
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const isChecking = fetcher.state !== "idle";
+  const failure = fetcher.data ? (fetcher.data.ok ? null : fetcher.data) : rejected;
+  const showError = !isChecking && failure !== null;
+  const retryAfterMs = failure?.retryAfterMs;
+
+  return (
+    <RoomNotice
+      icon={Lock}
+      title="This room is protected"
+      description="Enter the passphrase you were given to join."
+    >
+      <fetcher.Form
+        method="post"
+        className="flex w-full flex-col items-center gap-3 sm:flex-row"
+        onSubmit={() => {
+          submittedRef.current = value;
+        }}
+      >
+        <input
+          type="password"
+          name="passphrase"
+          autoFocus
+          autoComplete="off"
+          maxLength={MAX_PASSPHRASE_LENGTH}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="Passphrase"
+          aria-invalid={showError || undefined}
+          className="h-10 w-full flex-1 rounded-full border border-border bg-background px-4 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring/50 aria-invalid:border-destructive"
+        />
+        <Button type="submit" className="rounded-full" disabled={isChecking || !value}>
+          {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : "Join"}
+        </Button>
+      </fetcher.Form>
+      {showError && (
+        <p className="w-full text-sm text-destructive">
+          {retryAfterMs !== undefined
+            ? `Too many attempts. Try again in ${Math.max(1, Math.ceil(retryAfterMs / 1000))}s.`
+            : "That passphrase didn't work. Try again."}
+        </p>
+      )}
+    </RoomNotice>
+  );
+}
+
+function RoomExpiredNotice() {
+  const navigate = useNavigate();
+  return (
+    <RoomNotice
+      icon={TimerOff}
+      title="This room has expired"
+      description="Rooms close after a time limit, or once they've sat empty for a while. Start a new one to keep talking."
+    >
+      <Button className="rounded-full" onClick={() => navigate("/", { viewTransition: true })}>
+        Create a new room
+      </Button>
+    </RoomNotice>
+  );
+}
+
+// Minutes and seconds until the room closes, shown in the header once the server warns about it
+function ExpiryCountdown({ expiresAt }: { expiresAt: number }) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = Math.max(0, Math.ceil((expiresAt - now) / 1000));
+  const label = `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, "0")}`;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="flex items-center gap-1 text-xs font-medium tabular-nums text-amber-500">
+          <Timer className="h-3.5 w-3.5" />
+          {label}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>This room closes when the timer runs out</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+const STATUS_LABELS: Record<SignalingStatus, string> = {
+  connecting: "Connecting",
+  connected: "Connected",
+  reconnecting: "Reconnecting…",
+  closed: "Disconnected",
+  failed: "Can't connect",
+};
+
+// Fatal errors that replace the room with a full-screen notice
+const FATAL_SCREEN_CODES: SignalingErrorCode[] = [
+  "room-full",
+  "room-locked",
+  "room-expired",
+  "kicked",
+  "banned",
+  "admission-denied",
+];
+
 export default function Room({ loaderData }: Route.ComponentProps) {
-  const { roomId, clientId, websocketUrl } = loaderData as {
+  const { roomId, clientId, websocketUrl, passphraseRequired, expired } = loaderData as {
     roomId: string;
     clientId: string;
     websocketUrl: string;
+    passphraseRequired: boolean;
+    expired: boolean;
   };
-  const FORCE_PLAY_EVENT = "sidechannel:force-play";
-  const navigate = useNavigate();
-  const [status, setStatus] = useState("Disconnected");
-  const [socket, setSocket] = useState<WebSocket | null>(null);
-  const [isMuted, setIsMuted] = useState(false);
-  const [copied, setCopied] = useState(false);
-  const [canShare, setCanShare] = useState(false);
-  const [supportsSetSinkId, setSupportsSetSinkId] = useState(false);
-  const [isRequesting, setIsRequesting] = useState(false);
+  // Held in memory only; a reload asks again.
+  const [passphrase, setPassphrase] = useState<string | null>(null);
+  const [passphraseRejected, setPassphraseRejected] = useState<{ retryAfterMs?: number } | null>(null);
+  // undefined until localStorage has been read (after hydration); null when nothing is saved
+  const [profile, setProfile] = useState<Profile | null | undefined>(undefined);
+  const [profileSkipped, setProfileSkipped] = useState(false);
 
-  // Initialize WebSocket
   useEffect(() => {
-    if (!websocketUrl) return;
+    setProfile(loadProfile());
+  }, []);
 
-    const ws = new WebSocket(websocketUrl);
-    setSocket(ws);
+  const handleProfileChange = (next: Profile) => {
+    saveProfile(next);
+    setProfile(next);
+  };
 
-    ws.onopen = () => {
-      setStatus("Connected");
-    };
+  if (expired) {
+    return <RoomExpiredNotice />;
+  }
 
-    ws.onclose = () => {
-      setStatus("Disconnected");
-    };
+  // Gate before RoomSession mounts, so neither the mic nor the socket start early.
+  if (passphraseRequired && passphrase === null) {
+    return (
+      <PassphrasePrompt
+        rejected={passphraseRejected}
+        onUnlock={(value) => {
+          setPassphraseRejected(null);
+          setPassphrase(value);
+        }}
+      />
+    );
+  }
 
-    ws.onerror = (error) => {
-      console.error("WebSocket error:", error);
-      setStatus("Error");
-    };
+  if (profile === undefined) {
+    return <div className="min-h-screen bg-background" />;
+  }
 
-    return () => {
-      ws.close();
-    };
-  }, [websocketUrl, clientId]);
+  if (profile === null && !profileSkipped) {
+    return (
+      <RoomNotice
+        icon={UserRound}
+        title="What should people call you?"
+        description="Pick a name and avatar. They're saved on this device for next time."
+      >
+        <ProfileForm clientId={clientId} submitLabel="Join" onSubmit={handleProfileChange}>
+          <Button type="button" variant="ghost" className="rounded-full" onClick={() => setProfileSkipped(true)}>
+            Skip
+          </Button>
+        </ProfileForm>
+      </RoomNotice>
+    );
+  }
+
+  return (
+    <RoomSession
+      roomId={roomId}
+      clientId={clientId}
+      websocketUrl={websocketUrl}
+      passphrase={passphrase ?? undefined}
+      onPassphraseRejected={(retryAfterMs) => {
+        setPassphraseRejected({ retryAfterMs });
+        setPassphrase(null);
+      }}
+      profile={profile ?? undefined}
+      onProfileChange={handleProfileChange}
+    />
+  );
+}
+
+function RoomSession({
+  roomId,
+  clientId,
+  websocketUrl,
+  passphrase,
+  onPassphraseRejected,
+  profile,
+  onProfileChange,
+}: {
+  roomId: string;
+  clientId: string;
+  websocketUrl: string;
+  passphrase?: string;
+  onPassphraseRejected: (retryAfterMs?: number) => void;
+  profile?: Profile;
+  onProfileChange: (profile: Profile) => void;
+}) {
+  const FORCE_PLAY_EVENT = "sidechannel:force-play";
+  const navigate = useNavigate();
+  const [copied, setCopied] = useState(false);
+  const [canShare, setCanShare] = useState(false);
+  const [supportsSetSinkId, setSupportsSetSinkId] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [profileOpen, setProfileOpen] = useState(false);
+  // Set when the server rejected us and closed the socket; overrides the connection status
+  const [fatalError, setFatalError] = useState<SignalingError | null>(null);
+
+  // Signaling connection; reconnects on its own after network drops
+  const signaling = useSignalingSocket(websocketUrl);
 
   // Check Share Capability
   useEffect(() => {
@@ -371,13 +694,209 @@ export default function Room({ loaderData }: Route.ComponentProps) {
     selectedOutputDeviceId,
     switchOutputDevice,
     permissionState,
-    retryMedia
+    retryMedia,
+    signalingError,
+    isMuted,
+    forceMuted,
+    hostClientId,
+    isHost,
+    kickPeer,
+    banPeer,
+    forceMutePeer,
+    transferHost,
+    roomLocked,
+    setRoomLocked,
+    roomExpiresAt,
+    updateProfile,
+    admissionRequired,
+    waitingForAdmission,
+    knocks,
+    setAdmissionRequired,
+    admitPeer,
+    denyPeer,
+    openChannelPeerIds,
+    sendPeerMessage,
+    onPeerMessage,
+    openPeerChannel,
+    onPeerChannel,
+    peerStats,
+    relayAvailable,
+    relayOnly,
+    setRelayOnly,
+    audioProfile,
+    setAudioProfile,
+    latencyTargetMs,
+    setLatencyTarget,
+    latencyControlSupported,
   } = useWebRTC({
     roomId,
-    socket,
+    signaling,
     clientId,
+    passphrase,
+    profile,
   });
 
+  const {
+    messages: chatMessages,
+    unread: chatUnread,
+    chatOpen,
+    setChatOpen,
+    sendChat,
+    mode: chatMode,
+    setMode: setChatMode,
+  } = useChat({
+    signaling,
+    clientId,
+    profile,
+    peerIds: peers.map((p) => p.id),
+    openChannelPeerIds,
+    sendPeerMessage,
+    onPeerMessage,
+  });
+
+  const { transfers, sendFile, acceptTransfer, declineTransfer, cancelTransfer, dismissTransfer } =
+    useFileTransfer({
+      peerIds: peers.map((p) => p.id),
+      sendPeerMessage,
+      onPeerMessage,
+      openPeerChannel,
+      onPeerChannel,
+    });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Counts nested dragenter/dragleave pairs, so moving between children doesn't flicker
+  const dragDepthRef = useRef(0);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+
+  // Without `peerId`, the files go to everyone in the room.
+  const handleSendFiles = async (files: File[], peerId?: string) => {
+    for (const file of files) {
+      const result = await sendFile(file, peerId);
+      if (result === "too-large") {
+        toast.error(`${file.name} is too large`, {
+          description: `Files can be up to ${MAX_FILE_SIZE / (1024 * 1024)} MB.`,
+        });
+      } else if (result === "no-peers") {
+        toast.info("There's no one here to send files to yet.");
+        return;
+      }
+    }
+  };
+
+  // Surface server error frames
+  useEffect(() => {
+    if (!signalingError) return;
+    // Benign race: the peer left mid-negotiation and useWebRTC already cleaned up.
+    if (signalingError.code === "target-not-found") return;
+
+    const info = describeSignalingError(signalingError);
+    // The transport is already reconnecting; the header pill shows it.
+    if (info.recovery === "reconnect") return;
+    const action = recoveryAction(info.recovery);
+
+    if (signalingError.fatal) {
+      if (
+        signalingError.code === "passphrase-required" ||
+        signalingError.code === "passphrase-invalid" ||
+        signalingError.code === "passphrase-throttled"
+      ) {
+        leave();
+        onPassphraseRejected(signalingError.retryAfterMs);
+        return;
+      }
+      setFatalError(signalingError);
+      // These get a full-screen notice; release the mic and skip the toast.
+      if (FATAL_SCREEN_CODES.includes(signalingError.code)) {
+        leave();
+        return;
+      }
+      toast.error(info.title, {
+        description: info.description,
+        duration: Infinity,
+        action,
+      });
+    } else {
+      toast.warning(info.title, {
+        description: info.description,
+        action,
+      });
+    }
+  }, [signalingError]);
+
+  // The transport gave up: the server keeps refusing the socket (usually an expired join token).
+  useEffect(() => {
+    if (signaling.status !== "failed") return;
+    toast.error("Can't reach the room", {
+      description: "The server keeps refusing the connection. Reload to get a fresh session.",
+      duration: Infinity,
+      action: recoveryAction("reload"),
+    });
+  }, [signaling.status]);
+
+  useEffect(() => {
+    if (!forceMuted) return;
+    toast("The host muted you", {
+      description: "Unmute whenever you're ready to talk.",
+    });
+  }, [forceMuted]);
+
+  // Announce when the host role lands on us (including as the room's first joiner)
+  const wasHostRef = useRef(false);
+  useEffect(() => {
+    if (isHost && !wasHostRef.current && peers.length > 0) {
+      toast("You're now the host", {
+        description: "You can mute, remove or hand over hosting from each person's card.",
+      });
+    }
+    wasHostRef.current = isHost;
+  }, [isHost]);
+
+  // Host: one persistent toast per knock, dismissed once answered or withdrawn
+  const knockToastsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const shown = knockToastsRef.current;
+    for (const { clientId: id, profile: knockProfile } of knocks) {
+      if (shown.has(id)) continue;
+      shown.add(id);
+      toast(`${displayName(knockProfile, id)} wants to join`, {
+        id: `knock-${id}`,
+        duration: Infinity,
+        action: { label: "Admit", onClick: () => admitPeer(id) },
+        cancel: { label: "Deny", onClick: () => denyPeer(id) },
+      });
+    }
+    for (const id of shown) {
+      if (knocks.some((k) => k.clientId === id)) continue;
+      shown.delete(id);
+      toast.dismiss(`knock-${id}`);
+    }
+  }, [knocks]);
+
+  // Everyone hears about lock changes, not just the host who flipped it
+  const lockInitializedRef = useRef(false);
+  useEffect(() => {
+    if (!lockInitializedRef.current) {
+      lockInitializedRef.current = true;
+      return;
+    }
+    toast(roomLocked ? "Room locked" : "Room unlocked", {
+      description: roomLocked ? "Nobody new can join, even with the link." : "Anyone with the link can join again.",
+    });
+  }, [roomLocked]);
+
+  useEffect(() => {
+    if (!roomExpiresAt) return;
+    const minutes = Math.max(1, Math.round((roomExpiresAt - Date.now()) / 60_000));
+    toast.warning(`This room closes in ${minutes} minute${minutes === 1 ? "" : "s"}`, {
+      description: "It has reached its time limit. Start a new room to keep talking.",
+      duration: 10_000,
+    });
+  }, [roomExpiresAt]);
+
+  const handleAdmissionToggle = () => {
+    setAdmissionRequired(!admissionRequired);
+    toast(admissionRequired ? "Anyone with the link can join" : "New people now need your approval");
+  };
+
   const handleRetryMic = async () => {
     setIsRequesting(true);
     const timer = setTimeout(() => {
@@ -407,8 +926,7 @@ export default function Room({ loaderData }: Route.ComponentProps) {
         await handleRetryMic();
         return;
     }
-    const muted = toggleMute();
-    setIsMuted(muted);
+    toggleMute();
   };
 
   const handleLeave = () => {
@@ -417,6 +935,17 @@ export default function Room({ loaderData }: Route.ComponentProps) {
     navigate("/", { viewTransition: true });
   };
 
+  const recoveryAction = (recovery: SignalingErrorRecovery) => {
+    switch (recovery) {
+      case "reload":
+        return { label: "Reload", onClick: () => window.location.reload() };
+      case "home":
+        return { label: "Back to home", onClick: handleLeave };
+      default:
+        return undefined;
+    }
+  };
+
   const handleCopyLink = () => {
     navigator.clipboard.writeText(window.location.href);
     setCopied(true);
@@ -475,6 +1004,104 @@ export default function Room({ loaderData }: Route.ComponentProps) {
   const selectedDeviceLabel = audioDevices.find(d => d.deviceId === selectedDeviceId)?.label || "Default Mic";
   const selectedOutputLabel = audioOutputDevices.find(d => d.deviceId === selectedOutputDeviceId)?.label || "Default Speaker";
   
+  const isOnline = signaling.status === "connected" && !fatalError;
+  const isReconnecting = signaling.status === "reconnecting" && !fatalError;
+  const fatalInfo = fatalError ? describeSignalingError(fatalError) : null;
+  const fatalRecovery = fatalInfo ? recoveryAction(fatalInfo.recovery) : undefined;
+
+  if (fatalError?.code === "room-full") {
+    return (
+      <RoomNotice
+        icon={Users}
+        title="This room is full"
+        description={fatalError.message ?? "This room has reached its participant limit. Try again once someone leaves."}
+      >
+        <Button variant="outline" className="rounded-full" onClick={() => window.location.reload()}>
+          Try again
+        </Button>
+        <Button className="rounded-full" onClick={handleLeave}>
+          Back to home
+        </Button>
+      </RoomNotice>
+    );
+  }
+
+  if (fatalError?.code === "room-locked") {
+    return (
+      <RoomNotice
+        icon={Lock}
+        title="This room is locked"
+        description="The host has locked the room, so nobody new can join right now."
+      >
+        <Button variant="outline" className="rounded-full" onClick={() => window.location.reload()}>
+          Try again
+        </Button>
+        <Button className="rounded-full" onClick={handleLeave}>
+          Back to home
+        </Button>
+      </RoomNotice>
+    );
+  }
+
+  if (fatalError?.code === "room-expired") {
+    return <RoomExpiredNotice />;
+  }
+
+  if (fatalError?.code === "admission-denied") {
+    return (
+      <RoomNotice
+        icon={DoorClosed}
+        title="The host didn't let you in"
+        description="Your request to join this room was declined."
+      >
+        <Button className="rounded-full" onClick={handleLeave}>
+          Back to home
+        </Button>
+      </RoomNotice>
+    );
+  }
+
+  if (waitingForAdmission && !fatalError) {
+    return (
+      <RoomNotice
+        icon={Hourglass}
+        title="Waiting to be let in"
+        description="This room requires approval. The host has been notified that you're here."
+      >
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        <Button variant="outline" className="rounded-full" onClick={handleLeave}>
+          Leave
+        </Button>
+      </RoomNotice>
+    );
+  }
+
+  if (fatalError?.code === "kicked" || fatalError?.code === "banned") {
+    const isBan = fatalError.code === "banned";
+    return (
+      <RoomNotice
+        icon={isBan ? Ban : UserX}
+        title={isBan ? "You can't rejoin this room" : "You were removed from the room"}
+        description={
+          fatalError.message
+            ? `The host said: “${fatalError.message}”`
+            : isBan
+              ? "The host banned you for the rest of this room's life."
+              : "The host removed you from this room."
+        }
+      >
+        {!isBan && (
+          <Button variant="outline" className="rounded-full" onClick={() => window.location.reload()}>
+            Rejoin
+          </Button>
+        )}
+        <Button className="rounded-full" onClick={handleLeave}>
+          Back to home
+        </Button>
+      </RoomNotice>
+    );
+  }
+
   // Speaker is only "Active" if we have explicitly selected a non-default output AND the browser supports switching
   const isSpeakerActive = supportsSetSinkId && 
                           selectedOutputDeviceId !== "" && 
@@ -484,14 +1111,76 @@ export default function Room({ loaderData }: Route.ComponentProps) {
 
 
   return (
-    <div className="min-h-screen bg-background text-foreground font-sans selection:bg-primary/20">
+    <div
+      className="min-h-screen bg-background text-foreground font-sans selection:bg-primary/20"
+      onDragEnter={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        dragDepthRef.current += 1;
+        setDraggingFiles(true);
+      }}
+      onDragLeave={() => {
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+        if (dragDepthRef.current === 0) setDraggingFiles(false);
+      }}
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        dragDepthRef.current = 0;
+        setDraggingFiles(false);
+        // Already handled by a peer card
+        if (e.defaultPrevented) return;
+        e.preventDefault();
+        if (e.dataTransfer.files.length > 0) handleSendFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      {draggingFiles && (
+        <div className="fixed inset-4 z-30 rounded-3xl border-2 border-dashed border-primary/60 bg-primary/5 pointer-events-none flex items-start justify-center pt-24">
+          <p className="rounded-full bg-background/90 px-4 py-2 text-sm font-medium shadow-lg">
+            Drop on someone to send only to them, or anywhere to send to everyone
+          </p>
+        </div>
+      )}
+
       {/* Top Bar (Simplified) */}
       <header className="p-4 md:p-6 flex items-center justify-between pointer-events-none sticky top-0 z-10">
         <div className="flex items-center gap-3 pointer-events-auto bg-background/50 backdrop-blur-sm px-4 py-2 rounded-full border border-border">
-            <div className={`w-2 h-2 rounded-full ${status === 'Connected' ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)]' : 'bg-red-500'}`} />
+            <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)]' : isReconnecting ? 'bg-amber-500 animate-pulse' : 'bg-red-500'}`} />
             <h1 className="text-sm font-medium text-neutral-400 font-mono tracking-tight">
               {roomId}
             </h1>
+            {roomLocked && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Lock className="h-3.5 w-3.5 text-amber-500" aria-label="Room locked" />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Locked: nobody new can join</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+            {roomExpiresAt && isOnline && <ExpiryCountdown expiresAt={roomExpiresAt} />}
+            {isReconnecting && (
+              <span className="flex items-center gap-1 text-xs font-medium text-amber-500">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Reconnecting…
+              </span>
+            )}
+            {!isOnline && !isReconnecting && (
+              <span className="text-xs font-medium text-destructive">
+                {fatalInfo?.status ?? STATUS_LABELS[signaling.status]}
+              </span>
+            )}
+            {fatalRecovery && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-6 px-0 text-xs"
+                onClick={fatalRecovery.onClick}
+              >
+                {fatalRecovery.label}
+              </Button>
+            )}
            {/* Smart Share Button */}
             <Tooltip>
               <TooltipTrigger asChild>
@@ -510,15 +1199,38 @@ export default function Room({ loaderData }: Route.ComponentProps) {
             </Tooltip>
         </div>
         
-        {/* Client ID Badge */}
-        <div className="flex items-center gap-2 pointer-events-auto bg-background/50 backdrop-blur-sm px-3 py-1.5 rounded-full border border-border">
-            <div className="text-xs text-muted-foreground font-mono hidden sm:block">
-                ID: {clientId?.slice(0, 8)}...
-            </div>
-            <div className="h-6 w-6 rounded-full bg-muted flex items-center justify-center text-[10px] font-bold ring-1 ring-border">
-                {clientId?.slice(0, 2).toUpperCase()}
-            </div>
-        </div>
+        {/* Profile Badge */}
+        <Dialog open={profileOpen} onOpenChange={setProfileOpen}>
+          <DialogTrigger asChild>
+            <button
+              type="button"
+              className="flex items-center gap-2 pointer-events-auto bg-background/50 backdrop-blur-sm px-3 py-1.5 rounded-full border border-border hover:border-primary/50 transition-colors"
+            >
+              <span className="text-xs text-muted-foreground hidden sm:block max-w-32 truncate">
+                {displayName(profile, clientId)}
+              </span>
+              <span className={`h-6 w-6 rounded-full flex items-center justify-center text-[10px] font-bold ring-1 ring-border ${profile?.color ? AVATAR_COLOR_CLASSES[profile.color] : 'bg-muted'}`}>
+                {avatarLabel(profile, clientId)}
+              </span>
+            </button>
+          </DialogTrigger>
+          <DialogContent className="bg-background border-border text-foreground">
+            <DialogHeader>
+              <DialogTitle>Your profile</DialogTitle>
+              <DialogDescription>Everyone in the room sees this. It's saved on this device.</DialogDescription>
+            </DialogHeader>
+            <ProfileForm
+              initial={profile}
+              clientId={clientId}
+              submitLabel="Save"
+              onSubmit={(next) => {
+                onProfileChange(next);
+                updateProfile(next);
+                setProfileOpen(false);
+              }}
+            />
+          </DialogContent>
+        </Dialog>
       </header>
 
       {/* Main Grid */}
@@ -527,8 +1239,10 @@ export default function Room({ loaderData }: Route.ComponentProps) {
             {/* Local User Card */}
             <PeerCard 
                 id={clientId} 
+                profile={profile}
                 isLocal={true} 
                 muted={isMuted}
+                isHost={isHost}
                 stream={localStream || undefined}
                 micLabel={selectedDeviceLabel}
 
@@ -542,11 +1256,26 @@ export default function Room({ loaderData }: Route.ComponentProps) {
                 <PeerCard 
                     key={peer.id}
                     id={peer.id}
+                    profile={peer.profile}
                     muted={peer.muted}
-                    stream={peer.stream}
+                    stream={peer.stream ?? undefined}
+                    connection={peer.connection}
+                    stats={peerStats.get(peer.id)}
                     outputDeviceId={selectedOutputDeviceId}
                     permissionError={permissionState === 'denied'}
                     onRetry={handleRetryMic}
+                    isHost={peer.id === hostClientId}
+                    onDropFiles={(files) => handleSendFiles(files, peer.id)}
+                    hostControls={isHost ? (
+                        <PeerHostControls
+                            peerLabel={displayName(peer.profile, peer.id)}
+                            muted={peer.muted}
+                            onForceMute={() => forceMutePeer(peer.id)}
+                            onKick={(reason) => kickPeer(peer.id, reason)}
+                            onBan={(reason) => banPeer(peer.id, reason)}
+                            onMakeHost={() => transferHost(peer.id)}
+                        />
+                    ) : undefined}
                 />
             ))}
             
@@ -563,6 +1292,27 @@ export default function Room({ loaderData }: Route.ComponentProps) {
         </div>
       </main>
 
+      <FileTransferList
+        transfers={transfers}
+        peers={peers}
+        onAccept={acceptTransfer}
+        onDecline={declineTransfer}
+        onCancel={cancelTransfer}
+        onDismiss={dismissTransfer}
+      />
+
+      {chatOpen && (
+        <ChatPanel
+          messages={chatMessages}
+          clientId={clientId}
+          peers={peers}
+          mode={chatMode}
+          onModeChange={setChatMode}
+          onSend={sendChat}
+          onClose={() => setChatOpen(false)}
+        />
+      )}
+
       {/* Bottom Floating Control Bar */}
       <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 w-auto max-w-[90vw] animate-in slide-in-from-bottom-10 fade-in duration-500 delay-200">
         <TooltipProvider delayDuration={0}>
@@ -609,6 +1359,56 @@ export default function Room({ loaderData }: Route.ComponentProps) {
               </TooltipContent>
             </Tooltip>
 
+            {/* Chat Toggle */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`relative rounded-full w-12 h-12 transition-all ${chatOpen ? 'bg-primary text-primary-foreground shadow-md hover:bg-primary/90' : 'text-muted-foreground hover:bg-neutral-200 dark:hover:bg-white/10 hover:text-foreground'}`}
+                  onClick={() => setChatOpen(!chatOpen)}
+                >
+                  <MessageSquare className="h-5 w-5" />
+                  {chatUnread > 0 && !chatOpen && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold flex items-center justify-center">
+                      {chatUnread > 99 ? "99+" : chatUnread}
+                    </span>
+                  )}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{chatOpen ? "Hide chat" : "Chat"}</p>
+              </TooltipContent>
+            </Tooltip>
+
+            {/* Send File (to everyone; drop on a card for one peer) */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-full w-12 h-12 text-muted-foreground hover:text-foreground hover:bg-neutral-200 dark:hover:bg-white/10 transition-all"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Paperclip className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Send a file to everyone</p>
+              </TooltipContent>
+            </Tooltip>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = "";
+                if (files.length > 0) handleSendFiles(files);
+              }}
+            />
+
              {/* Share Button (New) */}
             <Tooltip>
               <TooltipTrigger asChild>
@@ -626,6 +1426,44 @@ export default function Room({ loaderData }: Route.ComponentProps) {
               </TooltipContent>
             </Tooltip>
 
+            {/* Lock Toggle (Host) */}
+            {isHost && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={`rounded-full w-12 h-12 transition-all ${roomLocked ? 'bg-primary text-primary-foreground shadow-md hover:bg-primary/90' : 'text-muted-foreground hover:bg-neutral-200 dark:hover:bg-white/10 hover:text-foreground'}`}
+                    onClick={() => setRoomLocked(!roomLocked)}
+                  >
+                    {roomLocked ? <Lock className="h-5 w-5" /> : <LockOpen className="h-5 w-5" />}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{roomLocked ? "Unlock room" : "Lock room"}</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
+            {/* Waiting Room Toggle (Host) */}
+            {isHost && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={`rounded-full w-12 h-12 transition-all ${admissionRequired ? 'bg-primary text-primary-foreground shadow-md hover:bg-primary/90' : 'text-muted-foreground hover:bg-neutral-200 dark:hover:bg-white/10 hover:text-foreground'}`}
+                    onClick={handleAdmissionToggle}
+                  >
+                    {admissionRequired ? <DoorClosed className="h-5 w-5" /> : <DoorOpen className="h-5 w-5" />}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{admissionRequired ? "Admission required (click to open)" : "Require admission"}</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
             {/* Settings Dialog */}
             <Dialog>
               <Tooltip>
@@ -703,6 +1541,120 @@ export default function Room({ loaderData }: Route.ComponentProps) {
                                 </div>
                             )}
                         </div>
+
+                    {/* Audio profile (room-wide) */}
+                    <div className="space-y-3">
+                        <label className="text-sm font-medium text-muted-foreground">
+                            Audio profile
+                        </label>
+                        <Select
+                            value={audioProfile}
+                            onValueChange={(value) => setAudioProfile(value as AudioProfile)}
+                            disabled={!isHost}
+                        >
+                            <SelectTrigger className="bg-background border-border text-foreground">
+                                <SelectValue>{AUDIO_PROFILE_PRESETS[audioProfile].label}</SelectValue>
+                            </SelectTrigger>
+                            <SelectContent className="bg-background border-border text-foreground">
+                                {AUDIO_PROFILES.map((id) => (
+                                    <SelectItem key={id} value={id}>
+                                        {AUDIO_PROFILE_PRESETS[id].label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            {AUDIO_PROFILE_PRESETS[audioProfile].description}{" "}
+                            {isHost ? "Applies to everyone in the room." : "Set by the host for everyone."}
+                        </p>
+                    </div>
+
+                    {/* Latency (ours only: how long we buffer what we hear) */}
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <label htmlFor="latency-target" className="text-sm font-medium text-muted-foreground">
+                                Latency
+                            </label>
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs font-mono">
+                                    {latencyTargetMs === null ? "Auto" : `${latencyTargetMs} ms buffer`}
+                                </span>
+                                {latencyTargetMs !== null && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 px-2 text-xs"
+                                        onClick={() => setLatencyTarget(null)}
+                                    >
+                                        Reset
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                        <input
+                            id="latency-target"
+                            type="range"
+                            className="w-full accent-primary"
+                            min={0}
+                            max={LATENCY_TARGET_MAX_MS}
+                            step={LATENCY_TARGET_STEP_MS}
+                            value={latencyTargetMs ?? 0}
+                            disabled={!latencyControlSupported}
+                            onChange={(e) => setLatencyTarget(Number(e.target.value))}
+                        />
+                        <div className="flex justify-between text-[11px] text-muted-foreground">
+                            <span>Lowest delay</span>
+                            <span>Smoothest audio</span>
+                        </div>
+                        {!latencyControlSupported && (
+                            <p className="text-xs text-muted-foreground">
+                                Not available: this browser doesn't let pages set the jitter buffer.
+                            </p>
+                        )}
+                        {peers.length > 0 && (
+                            <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 rounded border border-border p-2 text-xs">
+                                {peers.map((peer) => {
+                                    const delay = peerStats.get(peer.id)?.estimatedDelayMs;
+                                    return (
+                                        <div key={peer.id} className="contents">
+                                            <dt className="truncate text-muted-foreground">
+                                                {displayName(peer.profile, peer.id)}
+                                            </dt>
+                                            <dd className="text-right font-mono">
+                                                {delay == null ? "—" : `~${Math.round(delay)} ms`}
+                                            </dd>
+                                        </div>
+                                    );
+                                })}
+                            </dl>
+                        )}
+                        {peers.length > 0 && (
+                            <p className="text-[11px] text-muted-foreground">
+                                Estimated delay from each person's mouth to your ear.
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Privacy */}
+                    <div className="space-y-2">
+                        <label className="flex items-start gap-3 text-sm">
+                            <input
+                                type="checkbox"
+                                className="mt-0.5 h-4 w-4 accent-primary"
+                                checked={relayOnly && relayAvailable}
+                                disabled={!relayAvailable}
+                                onChange={(e) => setRelayOnly(e.target.checked)}
+                            />
+                            <span>
+                                <span className="font-medium">Relay-only mode</span>
+                                <span className="block text-xs text-muted-foreground mt-0.5">
+                                    {relayAvailable
+                                        ? "Route audio through the relay server so peers never see your IP address. Adds a little latency."
+                                        : "Not available: this server has no TURN relay configured."}
+                                </span>
+                            </span>
+                        </label>
+                    </div>
                 </div>
                 </DialogContent>
             </Dialog>
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import {
+  ChatTextSchema,
+  ProfileSchema,
+  decodeFrame,
+  type DecodeResult,
+} from "~/types/signaling";
+
+/**
+ * Messages exchanged directly between browsers over each peer connection's data channel.
+ * They never pass through the signaling server, so the sender is whoever is on the other
+ * end of the channel; no message carries a claimed sender id.
+ */
+
+// The data channel every peer connection opens. Negotiated up front (same id on both ends)
+// so neither side has to wait for `ondatachannel`.
+export const PEER_CHANNEL_LABEL = "sidechannel";
+export const PEER_CHANNEL_ID = 0;
+
+// File bytes go over a channel of their own per transfer, opened by the sender once the
+// receiver accepts: `file:<transferId>`. Offers, answers and results stay on the main channel.
+export const FILE_CHANNEL_PREFIX = "file:";
+
+// The receiver holds the whole file in memory to check its digest, so keep it modest.
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+export const MAX_FILE_NAME_LENGTH = 255;
+
+export const PeerMessageSchema = z.discriminatedUnion("type", [
+  // Resent to peers that haven't acked it yet, so receivers de-duplicate by id.
+  z.strictObject({
+    type: z.literal("chat"),
+    id: z.uuid(),
+    text: ChatTextSchema,
+    sentAt: z.number().int(), // epoch ms, sender's clock
+    profile: ProfileSchema.optional(),
+  }),
+  z.strictObject({
+    type: z.literal("chat-ack"),
+    id: z.uuid(),
+  }),
+  // Nothing is sent until the receiver answers with `file-accept`.
+  z.strictObject({
+    type: z.literal("file-offer"),
+    transferId: z.uuid(),
+    name: z.string().min(1).max(MAX_FILE_NAME_LENGTH),
+    size: z.number().int().min(0).max(MAX_FILE_SIZE),
+    mimeType: z.string().max(255),
+    sha256: z.string().regex(/^[0-9a-f]{64}$/), // hex digest of the whole file
+  }),
+  z.strictObject({
+    type: z.literal("file-accept"),
+    transferId: z.uuid(),
+  }),
+  z.strictObject({
+    type: z.literal("file-decline"),
+    transferId: z.uuid(),
+  }),
+  // Either side, at any point before the result
+  z.strictObject({
+    type: z.literal("file-cancel"),
+    transferId: z.uuid(),
+  }),
+  // Receiver, after checking the digest of what arrived
+  z.strictObject({
+    type: z.literal("file-result"),
+    transferId: z.uuid(),
+    ok: z.boolean(),
+  }),
+]);
+
+export type PeerMessage = z.infer<typeof PeerMessageSchema>;
+
+export function decodePeerMessage(data: unknown): DecodeResult<PeerMessage> {
+  return decodeFrame(PeerMessageSchema, data);
+}
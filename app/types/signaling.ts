@@ -1,41 +1,415 @@
 import { z } from "zod";
 
-export const SignalSchema = z.discriminatedUnion("type", [
+/**
+ * Signaling protocol shared by the browser (`useWebRTC`) and the Durable Object (`SignalingServer`).
+ *
+ * Both sides validate every inbound frame against these schemas and drop anything that doesn't match.
+ * Bump PROTOCOL_VERSION on any breaking change; the server rejects joins from other versions.
+ */
+export const PROTOCOL_VERSION = 1;
+
+// Upper bounds for inbound frames. Audio-only SDP is a few KB, so these leave plenty of headroom
+// while keeping a single frame from ballooning the DO's memory.
+export const MAX_FRAME_LENGTH = 64 * 1024;
+export const MAX_SDP_LENGTH = 32 * 1024;
+export const MAX_ICE_CANDIDATE_LENGTH = 1024;
+export const MAX_PASSPHRASE_LENGTH = 128;
+export const MAX_KICK_REASON_LENGTH = 200;
+export const MAX_RESUME_TOKEN_LENGTH = 64;
+export const MAX_DISPLAY_NAME_LENGTH = 32;
+export const MAX_CHAT_LENGTH = 500;
+// Largest roster a room-state frame may carry; room capacity is clamped to it
+export const MAX_ROOM_CAPACITY = 256;
+
+// Heartbeat. Clients send HEARTBEAT_PING every interval and the server answers with HEARTBEAT_PONG
+// through the hibernation auto-response, so pings never wake the Durable Object. The server evicts
+// a socket once it has been silent for HEARTBEAT_MAX_MISSED intervals; clients give up on the
+// server after two.
+export const HEARTBEAT_INTERVAL_MS = 5_000;
+export const HEARTBEAT_MAX_MISSED = 3;
+export const HEARTBEAT_PING = JSON.stringify({ type: "ping" });
+export const HEARTBEAT_PONG = JSON.stringify({ type: "pong" });
+
+const ClientIdSchema = z.uuid();
+
+// --- Payloads ---
+
+// RTCSessionDescriptionInit. Unknown keys are stripped rather than rejected since browsers
+// serialize these objects themselves.
+const sessionDescription = <T extends "offer" | "answer">(type: T) =>
   z.object({
+    type: z.literal(type),
+    sdp: z.string().min(1).max(MAX_SDP_LENGTH),
+  });
+
+export const OfferPayloadSchema = sessionDescription("offer");
+export const AnswerPayloadSchema = sessionDescription("answer");
+
+// RTCIceCandidateInit (the shape of RTCIceCandidate.toJSON()).
+export const IceCandidatePayloadSchema = z.object({
+  candidate: z.string().max(MAX_ICE_CANDIDATE_LENGTH),
+  sdpMid: z.string().max(64).nullable().optional(),
+  sdpMLineIndex: z.number().int().min(0).max(255).nullable().optional(),
+  usernameFragment: z.string().max(256).nullable().optional(),
+});
+
+// --- Profiles ---
+
+// Room-wide Opus encoding presets; what each one sets lives in `~/lib/audio-profiles`.
+export const AUDIO_PROFILES = ["voice", "gaming", "music", "low-bandwidth"] as const;
+export const AudioProfileSchema = z.enum(AUDIO_PROFILES);
+export const DEFAULT_AUDIO_PROFILE = "voice";
+
+export const AVATAR_COLORS = ["slate", "rose", "orange", "amber", "lime", "emerald", "sky", "violet", "fuchsia"] as const;
+
+// Trims, drops control/format characters (bidi overrides, zero-width joiners) and collapses
+// whitespace, so names can't be blank-looking or reorder the text around them.
+export function normalizeDisplayName(name: string): string {
+  return name.replace(/\p{C}/gu, "").replace(/\s+/g, " ").trim();
+}
+
+// Chosen by the user and sent with `join` / `set-profile`. Validated on both ends.
+export const ProfileSchema = z.strictObject({
+  name: z
+    .string()
+    .max(MAX_DISPLAY_NAME_LENGTH * 4)
+    .transform(normalizeDisplayName)
+    .pipe(z.string().min(1).max(MAX_DISPLAY_NAME_LENGTH)),
+  // A single emoji (possibly a ZWJ sequence)
+  emoji: z
+    .string()
+    .max(16)
+    .regex(/^(?=.*\p{Extended_Pictographic})(\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u)
+    .optional(),
+  color: z.enum(AVATAR_COLORS).optional(),
+});
+
+// --- Chat ---
+
+export const ChatTextSchema = z
+  .string()
+  .max(MAX_CHAT_LENGTH)
+  .transform((text) => text.trim())
+  .pipe(z.string().min(1));
+
+// A chat message as relayed by the server. The sender's profile is copied in so history
+// still reads right after they leave.
+export const ChatMessageSchema = z.strictObject({
+  id: z.uuid(),
+  senderClientId: ClientIdSchema,
+  senderProfile: ProfileSchema.optional(),
+  text: ChatTextSchema,
+  sentAt: z.number().int(), // epoch ms, server clock
+});
+
+// One entry of the `room-state` roster
+export const ParticipantSchema = z.strictObject({
+  clientId: ClientIdSchema,
+  profile: ProfileSchema.optional(),
+  muted: z.boolean(),
+  joinedAt: z.number().int(), // epoch ms
+});
+
+// --- Client -> Server ---
+
+// senderClientId is optional: the server stamps it from the authenticated socket
+// and only uses a client-supplied value to reject spoofing.
+export const ClientMessageSchema = z.discriminatedUnion("type", [
+  // Normally answered by the auto-response before it reaches the server's handler
+  z.strictObject({
+    type: z.literal("ping"),
+  }),
+  z.strictObject({
     type: z.literal("join"),
-    clientId: z.string(),
+    version: z.number().int(),
+    clientId: ClientIdSchema,
+    // Required when the room was created with a passphrase
+    passphrase: z.string().max(MAX_PASSPHRASE_LENGTH).optional(),
+    // From the last `session` message; reattaches a dropped session instead of joining afresh
+    resumeToken: z.string().max(MAX_RESUME_TOKEN_LENGTH).optional(),
+    profile: ProfileSchema.optional(),
   }),
-  z.object({
+  z.strictObject({
+    type: z.literal("set-profile"),
+    profile: ProfileSchema,
+  }),
+  z.strictObject({
+    type: z.literal("chat"),
+    text: ChatTextSchema,
+  }),
+  // Intentional exit. Without it a dropped socket is held for the reconnect grace window.
+  z.strictObject({
+    type: z.literal("leave"),
+  }),
+  z.strictObject({
     type: z.literal("offer"),
-    targetClientId: z.string(),
-    payload: z.any(), // RTCSessionDescriptionInit
-    senderClientId: z.string(),
+    targetClientId: ClientIdSchema,
+    payload: OfferPayloadSchema,
+    senderClientId: ClientIdSchema.optional(),
   }),
-  z.object({
+  z.strictObject({
     type: z.literal("answer"),
-    targetClientId: z.string(),
-    payload: z.any(), // RTCSessionDescriptionInit
-    senderClientId: z.string(),
+    targetClientId: ClientIdSchema,
+    payload: AnswerPayloadSchema,
+    senderClientId: ClientIdSchema.optional(),
   }),
-  z.object({
+  z.strictObject({
     type: z.literal("ice-candidate"),
-    targetClientId: z.string(),
-    payload: z.any(), // RTCIceCandidateInit
-    senderClientId: z.string(),
+    targetClientId: ClientIdSchema,
+    payload: IceCandidatePayloadSchema,
+    senderClientId: ClientIdSchema.optional(),
   }),
-  z.object({
-    type: z.literal("user-left"),
-    clientId: z.string(),
+  z.strictObject({
+    type: z.literal("mute-state"),
+    muted: z.boolean(),
+    senderClientId: ClientIdSchema.optional(),
   }),
-  z.object({
+  // Host-only moderation. Kick closes the target's socket; ban also keeps it out for the rest of the room's life.
+  z.strictObject({
+    type: z.enum(["kick", "ban"]),
+    targetClientId: ClientIdSchema,
+    reason: z.string().max(MAX_KICK_REASON_LENGTH).optional(),
+  }),
+  z.strictObject({
+    type: z.literal("force-mute"),
+    targetClientId: ClientIdSchema,
+  }),
+  z.strictObject({
+    type: z.literal("transfer-host"),
+    targetClientId: ClientIdSchema,
+  }),
+  // Host-only waiting room. While admission is required, joins are parked until admitted or denied.
+  z.strictObject({
+    type: z.literal("set-admission"),
+    required: z.boolean(),
+  }),
+  z.strictObject({
+    type: z.enum(["admit", "deny"]),
+    targetClientId: ClientIdSchema,
+  }),
+  // Host-only. A locked room turns away every new join; people already inside are unaffected.
+  z.strictObject({
+    type: z.enum(["lock", "unlock"]),
+  }),
+  // Host-only. Everyone's connections switch to the new encoding preset.
+  z.strictObject({
+    type: z.literal("set-audio-profile"),
+    profile: AudioProfileSchema,
+  }),
+]);
+
+// --- Errors ---
+
+export const SignalingErrorCodeSchema = z.enum([
+  "invalid-message", // frame failed validation
+  "unsupported-protocol-version",
+  "not-joined", // signaling before `join`
+  "client-id-mismatch", // claimed id doesn't match the authenticated socket
+  "client-id-in-use", // the same client is already in the room (another tab), or held for a resume
+  "target-not-found", // relay target isn't in the room
+  "rate-limited",
+  "room-full",
+  "passphrase-required",
+  "passphrase-invalid",
+  "passphrase-throttled", // too many wrong guesses; `retryAfterMs` says when to try again
+  "not-host", // moderation command from someone who isn't the host
+  "kicked",
+  "banned",
+  "admission-denied",
+  "room-locked",
+  "room-expired",
+  "heartbeat-timeout", // the server stopped hearing pings from this socket
+]);
+
+export type SignalingErrorCode = z.infer<typeof SignalingErrorCodeSchema>;
+
+// Close codes used when an error is fatal. The error frame is always sent first,
+// so clients should prefer it over the close code.
+export const ERROR_CLOSE_CODES: Partial<Record<SignalingErrorCode, number>> = {
+  "passphrase-required": 4401,
+  "passphrase-invalid": 4401,
+  "passphrase-throttled": 4401,
+  "client-id-mismatch": 4403,
+  "client-id-in-use": 4409,
+  "rate-limited": 4410,
+  "heartbeat-timeout": 4411,
+  "room-full": 4429,
+  kicked: 4430,
+  banned: 4431,
+  "admission-denied": 4432,
+  "room-locked": 4423,
+  "room-expired": 4408,
+  "unsupported-protocol-version": 4426,
+};
+
+// --- Server -> Client ---
+
+export const ServerMessageSchema = z.discriminatedUnion("type", [
+  z.strictObject({
+    type: z.literal("pong"),
+  }),
+  // Sent on every successful join. `resumed` means the server reattached a held session
+  // and nobody else saw us leave.
+  z.strictObject({
+    type: z.literal("session"),
+    resumeToken: z.string().max(MAX_RESUME_TOKEN_LENGTH),
+    resumed: z.boolean(),
+  }),
+  // Sent right after `session`: the authoritative roster (ourselves included) and room settings.
+  // Everything after it arrives as incremental events.
+  z.strictObject({
+    type: z.literal("room-state"),
+    participants: z.array(ParticipantSchema).max(MAX_ROOM_CAPACITY),
+    hostClientId: ClientIdSchema.nullable(),
+    locked: z.boolean(),
+    admissionRequired: z.boolean(),
+    audioProfile: AudioProfileSchema,
+  }),
+  z.strictObject({
     type: z.literal("user-joined"),
-    clientId: z.string(),
+    clientId: ClientIdSchema,
+    profile: ProfileSchema.optional(),
   }),
-  z.object({
+  // Broadcast to everyone, the sender included (that's their delivery confirmation)
+  z.strictObject({
+    type: z.literal("chat"),
+    message: ChatMessageSchema,
+  }),
+  // Sent after `room-state`: the last few messages, oldest first. Kept in memory only.
+  z.strictObject({
+    type: z.literal("chat-history"),
+    messages: z.array(ChatMessageSchema).max(100),
+  }),
+  // Broadcast when someone edits their profile
+  z.strictObject({
+    type: z.literal("profile-changed"),
+    clientId: ClientIdSchema,
+    profile: ProfileSchema,
+  }),
+  z.strictObject({
+    type: z.literal("user-left"),
+    clientId: ClientIdSchema,
+  }),
+  z.strictObject({
+    type: z.literal("offer"),
+    targetClientId: ClientIdSchema,
+    payload: OfferPayloadSchema,
+    senderClientId: ClientIdSchema,
+  }),
+  z.strictObject({
+    type: z.literal("answer"),
+    targetClientId: ClientIdSchema,
+    payload: AnswerPayloadSchema,
+    senderClientId: ClientIdSchema,
+  }),
+  z.strictObject({
+    type: z.literal("ice-candidate"),
+    targetClientId: ClientIdSchema,
+    payload: IceCandidatePayloadSchema,
+    senderClientId: ClientIdSchema,
+  }),
+  z.strictObject({
     type: z.literal("mute-state"),
-    senderClientId: z.string(),
+    senderClientId: ClientIdSchema,
     muted: z.boolean(),
   }),
+  // Sent to everyone when the host changes
+  z.strictObject({
+    type: z.literal("host-changed"),
+    hostClientId: ClientIdSchema.nullable(),
+  }),
+  // Sent to the target only; the client disables its track until the user unmutes
+  z.strictObject({
+    type: z.literal("force-muted"),
+    byClientId: ClientIdSchema,
+  }),
+  // Broadcast ahead of the room's lifetime limit, and sent to anyone joining after that
+  z.strictObject({
+    type: z.literal("room-expiring"),
+    expiresAt: z.number().int(), // epoch ms
+  }),
+  // Broadcast on change
+  z.strictObject({
+    type: z.literal("lock-changed"),
+    locked: z.boolean(),
+  }),
+  // Broadcast on change
+  z.strictObject({
+    type: z.literal("audio-profile-changed"),
+    profile: AudioProfileSchema,
+  }),
+  // Waiting room: broadcast on change
+  z.strictObject({
+    type: z.literal("admission-changed"),
+    required: z.boolean(),
+  }),
+  // To a parked joiner, and later when the host lets them in
+  z.strictObject({
+    type: z.enum(["admission-pending", "admitted"]),
+  }),
+  // To the host: someone is waiting, or stopped waiting
+  z.strictObject({
+    type: z.literal("knock"),
+    clientId: ClientIdSchema,
+    profile: ProfileSchema.optional(),
+  }),
+  z.strictObject({
+    type: z.literal("knock-withdrawn"),
+    clientId: ClientIdSchema,
+  }),
+  z.strictObject({
+    type: z.literal("error"),
+    code: SignalingErrorCodeSchema,
+    message: z.string().max(256).optional(),
+    // True when the server closes the socket right after sending this
+    fatal: z.boolean(),
+    retryAfterMs: z.number().int().nonnegative().optional(),
+    // For target-not-found: the peer that couldn't be reached
+    targetClientId: ClientIdSchema.optional(),
+  }),
 ]);
 
-export type SignalMessage = z.infer<typeof SignalSchema>;
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+export type Profile = z.infer<typeof ProfileSchema>;
+export type AvatarColor = (typeof AVATAR_COLORS)[number];
+export type Participant = z.infer<typeof ParticipantSchema>;
+export type AudioProfile = z.infer<typeof AudioProfileSchema>;
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type RelayedSignal = Extract<ServerMessage, { type: "offer" | "answer" | "ice-candidate" }>;
+export type SignalingError = Extract<ServerMessage, { type: "error" }>;
+
+// --- Decoding ---
+
+export type DecodeResult<T> = { ok: true; message: T } | { ok: false; error: string };
+
+// Shared with the peer-to-peer data channel protocol (`~/types/peer-messages`)
+export function decodeFrame<T>(schema: z.ZodType<T>, data: unknown): DecodeResult<T> {
+  if (typeof data !== "string") {
+    return { ok: false, error: "binary frames are not supported" };
+  }
+  if (data.length > MAX_FRAME_LENGTH) {
+    return { ok: false, error: `frame exceeds ${MAX_FRAME_LENGTH} characters` };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return { ok: false, error: "frame is not valid JSON" };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return { ok: false, error: z.prettifyError(result.error) };
+  }
+  return { ok: true, message: result.data };
+}
+
+export function decodeClientMessage(data: unknown): DecodeResult<ClientMessage> {
+  return decodeFrame(ClientMessageSchema, data);
+}
+
+export function decodeServerMessage(data: unknown): DecodeResult<ServerMessage> {
+  return decodeFrame(ServerMessageSchema, data);
+}
@@ -10,6 +10,18 @@ declare module "react-router" {
   }
 }
 
+// Secrets aren't in wrangler.jsonc, so `wrangler types` can't see them.
+// Set with `wrangler secret put <NAME>` (or `.dev.vars` locally).
+declare global {
+  namespace Cloudflare {
+    interface Env {
+      JOIN_TOKEN_SECRET: string;
+      // Optional: shared with the TURN server (coturn `static-auth-secret`)
+      TURN_SECRET?: string;
+    }
+  }
+}
+
 const requestHandler = createRequestHandler(
   () => import("virtual:react-router/server-build"),
   import.meta.env.MODE